@@ -0,0 +1,100 @@
+import path from 'path';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { printTable, type Result } from '../utils/cliUtils';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
+import { runBacktest, type BacktestReport, type Distribution } from '../validator/backtest';
+import { BLOCK_TIME_MS } from '../validator/scheduler';
+import { loadWeightSnapshots } from '../validator/snapshots';
+
+const log = getLogger('backtest');
+
+const parseList = (value: string, name: string): Result<number[]> => {
+  const values = value.split(',').map(v => v.trim()).filter(Boolean).map(Number);
+  if (!values.length || values.some(v => !isFinite(v) || v <= 0)) {
+    return [[], new Error(`--${name} expects a comma-separated list of positive numbers, got "${value}"`)];
+  }
+  return [values, null];
+};
+
+const formatDuration = (ms: number): string => {
+  if (ms >= 3_600_000) return `${(ms / 3_600_000).toFixed(1)}h`;
+  if (ms >= 60_000) return `${(ms / 60_000).toFixed(1)}m`;
+  return `${Math.round(ms / 1000)}s`;
+};
+
+const formatDistribution = (d: Distribution | null, format: (v: number) => string): string =>
+  d ? `${format(d.median)} / ${format(d.p90)} / ${format(d.max)}` : '-';
+
+const printReports = (reports: BacktestReport[]) => {
+  const header = ['alpha', 'loop', 'set every', 'sets', 'epochs', 'converged', 'convergence p50/p90/max', 'churn/epoch p50/p90/max', 'rounding p50/p90/max'];
+  printTable(header, reports.map(r => [
+    r.params.alpha.toString(),
+    formatDuration(r.params.loopDelayMs),
+    formatDuration(r.params.setIntervalMs),
+    r.weightSets.toString(),
+    r.epochs.toString(),
+    `${r.newMiners - r.notConverged.length}/${r.newMiners}`,
+    formatDistribution(r.convergenceMs, formatDuration),
+    formatDistribution(r.churn, v => v.toFixed(4)),
+    formatDistribution(r.roundingError, v => v.toExponential(2)),
+  ]));
+};
+
+async function main(): Promise<Result<void>> {
+  const config = getConfig();
+  const argv = yargs(hideBin(process.argv))
+    .usage('Usage: bunx tsx scripts/backtest.ts [--dir logs/snapshots] [--alpha 0.1,0.3] [--loop-ms 300000] [--set-interval-ms 4800000] [--tempo 360] [--json]')
+    .option('dir', { type: 'string', default: path.join(__dirname, '..', 'logs', 'snapshots'), describe: 'Directory with recorded weight snapshots' })
+    .option('alpha', { type: 'string', default: String(config.validator.emaAlpha), describe: 'EMA_ALPHA values to compare' })
+    .option('loop-ms', { type: 'string', default: String(config.validator.loopDelayMs), describe: 'LOOP_DELAY_MS values to compare' })
+    .option('set-interval-ms', { type: 'string', default: String(config.validator.setIntervalMs), describe: 'SET_INTERVAL_MS values to compare' })
+    .option('tempo', { type: 'number', default: 360, describe: 'Subnet tempo in blocks; churn is measured per epoch of tempo + 1 blocks' })
+    .option('target', { type: 'number', default: 0.9, describe: 'Share of its target weight a new miner must reach' })
+    .option('json', { type: 'boolean', default: false, describe: 'Print the full reports as JSON' })
+    .help(false)
+    .version(false)
+    .parseSync();
+
+  const [alphas, alphaErr] = parseList(argv.alpha, 'alpha');
+  if (alphaErr) return [undefined, alphaErr];
+  if (alphas.some(a => a > 1)) return [undefined, new Error('--alpha values must be in (0, 1]')];
+  const [loopDelays, loopErr] = parseList(argv['loop-ms'], 'loop-ms');
+  if (loopErr) return [undefined, loopErr];
+  const [setIntervals, setErr] = parseList(argv['set-interval-ms'], 'set-interval-ms');
+  if (setErr) return [undefined, setErr];
+  if (!(argv.target > 0 && argv.target <= 1)) return [undefined, new Error('--target must be in (0, 1]')];
+  if (!(Number.isInteger(argv.tempo) && argv.tempo > 0)) return [undefined, new Error('--tempo must be a positive integer')];
+  const epochMs = (argv.tempo + 1) * BLOCK_TIME_MS;
+
+  const [loaded, loadErr] = await loadWeightSnapshots(argv.dir);
+  if (loadErr) return [undefined, new Error(`failed to read snapshots from ${argv.dir}: ${loadErr.message}`)];
+  const { snapshots, skipped } = loaded;
+  if (skipped.length) log.warn(`skipped ${skipped.length} unreadable snapshot files`);
+  if (snapshots.length < 2) return [undefined, new Error(`need at least 2 snapshots in ${argv.dir}, found ${snapshots.length}`)];
+
+  const reports: BacktestReport[] = [];
+  for (const alpha of alphas) {
+    for (const loopDelayMs of loopDelays) {
+      for (const setIntervalMs of setIntervals) {
+        reports.push(runBacktest(snapshots, { alpha, loopDelayMs, setIntervalMs, epochMs, targetRatio: argv.target }));
+      }
+    }
+  }
+
+  if (argv.json) {
+    console.log(JSON.stringify(reports, null, 2));
+    return [undefined, null];
+  }
+
+  const first = snapshots[0].timestamp;
+  const last = snapshots[snapshots.length - 1].timestamp;
+  console.log(`${snapshots.length} snapshots from ${first} to ${last}, new miners converge at ${Math.round(argv.target * 100)}% of target, epochs of ${argv.tempo + 1} blocks (${formatDuration(epochMs)})\n`);
+  printReports(reports);
+  return [undefined, null];
+}
+
+void main().then(([_, err]) => {
+  if (err) { log.error(err.message); process.exit(1); }
+});
@@ -1,6 +1,10 @@
 import { JsonRpcProvider, formatEther } from 'ethers';
 import fs from 'fs';
 import path from 'path';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger('balance');
 
 async function getEVMBalance(): Promise<[void, Error | null]> {
   try {
@@ -10,11 +14,11 @@ async function getEVMBalance(): Promise<[void, Error | null]> {
       localnet: 'http://localhost:9944'
     };
 
-    const network = process.env.NETWORK ?? 'mainnet';
+    const network = getConfig().eth.network;
     const rpcUrl = rpcUrls[network];
     if (!rpcUrl) return [undefined, new Error(`Invalid network ${network}`)];
 
-    console.log(`connecting to ${network} at ${rpcUrl}`);
+    log.info(`connecting to ${network} at ${rpcUrl}`);
 
     const provider = new JsonRpcProvider(rpcUrl);
     const keysDir = path.join(process.cwd(), '.keys');
@@ -22,11 +26,11 @@ async function getEVMBalance(): Promise<[void, Error | null]> {
 
     const keyFiles = fs.readdirSync(keysDir).filter(f => f.endsWith('.json'));
     if (!keyFiles.length) {
-      console.log('no key files found');
+      log.warn('no key files found');
       return [undefined, null];
     }
 
-    console.log(`found ${keyFiles.length} key files`);
+    log.info(`found ${keyFiles.length} key files`);
 
     for (const file of keyFiles) {
       const keyPath = path.join(keysDir, file);
@@ -53,5 +57,5 @@ async function getEVMBalance(): Promise<[void, Error | null]> {
 
 (async () => {
   const [, err] = await getEVMBalance();
-  if (err) console.error('error getting balance:', err);
+  if (err) log.error('error getting balance:', err);
 })(); 
\ No newline at end of file
@@ -6,6 +6,9 @@ type Result = [string | null, Error | null]
 
 import { encodeAddress } from '@polkadot/util-crypto'
 import { hexToU8a, isHex } from '@polkadot/util'
+import { getLogger } from '../utils/logger'
+
+const log = getLogger('check-key')
 
 const convert = (hex: string): Result => {
   if (!isHex(hex) || hex.length !== 66) return [null, new Error('invalid hex public key')] // 0x + 64 chars
@@ -26,7 +29,7 @@ const main = () => {
   }
   const [addr, err] = convert(hex)
   if (err) {
-    console.error(err.message)
+    log.error(err.message)
     process.exit(1)
   }
   console.log(addr)
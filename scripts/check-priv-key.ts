@@ -1,6 +1,9 @@
 import { Keyring } from '@polkadot/keyring'
 import { hexToU8a, isHex } from '@polkadot/util'
 import { cryptoWaitReady } from '@polkadot/util-crypto'
+import { getLogger } from '../utils/logger'
+
+const log = getLogger('check-priv-key')
 
 type Result = [string | null, Error | null]
 
@@ -26,7 +29,7 @@ const main = async () => {
   }
   const [addr, err] = await convert(hex)
   if (err) {
-    console.error(err.message)
+    log.error(err.message)
     process.exit(1)
   }
   console.log(addr)
@@ -0,0 +1,60 @@
+import path from 'path';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
+import { controlRequest, describeTarget, readControlToken } from '../validator/control';
+
+const log = getLogger('control');
+
+// Standard [value, err] tuple type
+export type Result<T> = [T, Error | null];
+
+// Command -> control endpoint
+const COMMANDS: Record<string, { method: 'GET' | 'POST'; route: string; describe: string }> = {
+  status: { method: 'GET', route: '/status', describe: 'Loop, pause and watchdog status' },
+  state: { method: 'GET', route: '/state', describe: 'EMA weights and weight source caches' },
+  pause: { method: 'POST', route: '/pause', describe: 'Pause weight submission (--reason)' },
+  resume: { method: 'POST', route: '/resume', describe: 'Resume weight submission' },
+  'set-weights': { method: 'POST', route: '/set-weights', describe: 'Fetch fresh weights and set them now' },
+  'version-check': { method: 'POST', route: '/version-check', describe: 'Check version compatibility with the server' },
+  'reload-config': { method: 'POST', route: '/reload-config', describe: 'Re-read the configuration' },
+};
+
+async function main(): Promise<Result<void>> {
+  const config = getConfig();
+  const argv = yargs(hideBin(process.argv))
+    .usage(`Usage: bunx tsx scripts/control.ts <${Object.keys(COMMANDS).join('|')}> [--reason text] [--port 0] [--socket path] [--token-file file]`)
+    .option('reason', { type: 'string', default: '', describe: 'Why weight submission is paused (pause)' })
+    .option('port', { type: 'number', default: config.control.port, describe: 'Control API port on 127.0.0.1' })
+    .option('socket', { type: 'string', default: config.control.socket, describe: 'Control API Unix socket, used instead of the port' })
+    .option('token-file', { type: 'string', default: config.control.tokenFile || path.join(__dirname, '..', 'logs', 'control.token'), describe: 'File holding the control token' })
+    .help(false)
+    .version(false)
+    .parseSync();
+
+  const name = String(argv._[0] ?? '');
+  const command = COMMANDS[name];
+  if (!command) {
+    const list = Object.entries(COMMANDS).map(([cmd, { describe }]) => `  ${cmd.padEnd(14)} ${describe}`).join('\n');
+    return [undefined, new Error(`${name ? `unknown command "${name}"` : 'missing command'}, expected one of:\n${list}`)];
+  }
+  const target = { port: argv.port, socket: argv.socket };
+  if (!target.socket && !(target.port > 0)) {
+    return [undefined, new Error('control API is disabled: set control.port (CONTROL_PORT) or control.socket (CONTROL_SOCKET), or pass --port/--socket')];
+  }
+
+  const [token, tokenErr] = await readControlToken(argv['token-file']);
+  if (tokenErr) return [undefined, tokenErr];
+  const body = name === 'pause' && argv.reason ? { reason: argv.reason } : undefined;
+  const [response, requestErr] = await controlRequest(target, token, command.method, command.route, body);
+  if (requestErr || !response) return [undefined, requestErr ?? new Error(`no response from ${describeTarget(target)}`)];
+  if (!response.body.ok) return [undefined, new Error(`${name} failed (${response.status}): ${response.body.error}`)];
+
+  console.log(JSON.stringify(response.body.result, null, 2));
+  return [undefined, null];
+}
+
+void main().then(([_, err]) => {
+  if (err) { log.error(err.message); process.exit(1); }
+});
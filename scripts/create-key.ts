@@ -2,16 +2,19 @@ import fs from 'fs';
 import path from 'path';
 import { Wallet, ethers } from 'ethers';
 import readline from 'readline';
-import dotenv from 'dotenv';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { blake2AsU8a, encodeAddress } from '@polkadot/util-crypto';
 import { hexToU8a, stringToU8a } from '@polkadot/util';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
 
 // dynamic chalk loader to avoid ESM import issues
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let chalk: any;
 
+const log = getLogger('create-key');
+
 const loadChalk = async (): Promise<any> => {
   if (!chalk) chalk = (await import('chalk')).default;
   return chalk;
@@ -48,8 +51,6 @@ const prompt = (q: string): Promise<string> =>
     });
   });
 
-dotenv.config();
-
 async function intro(): Promise<boolean> {
   const c = await loadChalk();
   const msg = `${c.cyanBright('This script will create an EVM compatible Bittensor account.')}
@@ -109,9 +110,9 @@ async function main(): Promise<[void, Error | null]> {
     keyPath,
     JSON.stringify({ address, privateKey, mnemonic, ss58Address: ss58Address || null }, null, 2)
   );
-  console.log(`key saved to ${keyPath}\n`);
+  log.info(`key saved to ${keyPath}`);
 
-  const existing = process.env.ETH_PRIVKEY;
+  const existing = getConfig().keys.ethPrivkey;
   let shouldUpdateEnv = true;
   
   if (existing) {
@@ -150,7 +151,7 @@ async function main(): Promise<[void, Error | null]> {
 (async () => {
   const [, err] = await main();
   if (err) {
-    console.error('error:', err.message);
+    log.error('error:', err.message);
     process.exit(1);
   }
 })(); 
\ No newline at end of file
@@ -1,9 +1,11 @@
 import axios from 'axios';
-import { ApiPromise, WsProvider } from '@polkadot/api';
+import { ApiPromise } from '@polkadot/api';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import fs from 'fs/promises';
 import path from 'path';
+import { getDefaultConnectionManager } from '../utils/connectionManager';
+import { getLogger } from '../utils/logger';
 
 // #region Interfaces
 interface Token {
@@ -47,7 +49,8 @@ interface PositionsResponse {
 }
 // #endregion
 
-const BITTENSOR_ENDPOINT = 'wss://entrypoint-finney.opentensor.ai:443';
+const log = getLogger('get-positions');
+
 const API_URL = 'http://77.creativebuilds.io/positions';
 
 const getPositions = async (): Promise<[PositionsResponse | null, Error | null]> => {
@@ -64,8 +67,7 @@ const getPositions = async (): Promise<[PositionsResponse | null, Error | null]>
 
 const getPolkadotApi = async (): Promise<[ApiPromise | null, Error | null]> => {
     try {
-        const provider = new WsProvider(BITTENSOR_ENDPOINT);
-        const api = await ApiPromise.create({ provider });
+        const api = await getDefaultConnectionManager().getApi();
         return [api, null];
     } catch (error) {
         return [null, error as Error];
@@ -118,7 +120,7 @@ const getAllMiners = async (api: ApiPromise, netuid: number): Promise<[Record<st
                                 miners[hotkeyStr] = uid;
                             }
                         } catch (error) {
-                            console.warn(`Failed to fetch hotkey for UID ${uid}:`, error);
+                            log.warn(`Failed to fetch hotkey for UID ${uid}:`, error);
                         }
                     })(),
                 );
@@ -180,27 +182,27 @@ const main = async () => {
         .help()
         .argv;
 
-    console.log(chalk.yellow('Fetching liquidity positions...'));
+    log.info('Fetching liquidity positions...');
     const [positionsData, pError] = await getPositions();
     if (pError || !positionsData) {
-        console.error(chalk.red('Error fetching positions:'), pError);
+        log.error('Error fetching positions:', pError);
         process.exit(1);
     }
     const { positions } = positionsData;
     let positionsToSave: Record<string, any> = {};
 
 
-    console.log(chalk.yellow('Connecting to Bittensor network...'));
+    log.info('Connecting to Bittensor network...');
     const [api, apiError] = await getPolkadotApi();
     if (apiError || !api) {
-        console.error(chalk.red('Error connecting to Bittensor:'), apiError);
+        log.error('Error connecting to Bittensor:', apiError);
         process.exit(1);
     }
 
     if (argv.uid !== undefined) {
         const [hotkey, hError] = await getHotkeyForUid(api, argv.netuid, argv.uid);
         if (hError || !hotkey) {
-            console.error(chalk.red(`Error fetching hotkey for UID ${argv.uid}:`), hError);
+            log.error(`Error fetching hotkey for UID ${argv.uid}:`, hError);
         } else {
             if (positions[hotkey]) {
                 prettyPrintPositions(chalk, hotkey, positions[hotkey], argv.uid);
@@ -210,10 +212,10 @@ const main = async () => {
             }
         }
     } else {
-        console.log(chalk.yellow('Fetching all miners...'));
+        log.info('Fetching all miners...');
         const [miners, mError] = await getAllMiners(api, argv.netuid);
         if (mError || !miners) {
-            console.error(chalk.red('Error fetching miners:'), mError);
+            log.error('Error fetching miners:', mError);
         } else {
             const hotkeysWithPositions = Object.keys(positions).filter(h => positions[h].length > 0);
             if (hotkeysWithPositions.length === 0) {
@@ -228,7 +230,7 @@ const main = async () => {
         }
     }
     
-    await api.disconnect();
+    await getDefaultConnectionManager().close();
     
     if (Object.keys(positionsToSave).length > 0) {
         const { save } = await inquirer.prompt([
@@ -254,15 +256,15 @@ const main = async () => {
             try {
                 const filePath = path.resolve(process.cwd(), filename);
                 await fs.writeFile(filePath, JSON.stringify(positionsToSave, null, 2));
-                console.log(chalk.green(`\nSuccessfully saved to ${filePath}`));
+                log.info(`Successfully saved to ${filePath}`);
             } catch (error) {
-                console.error(chalk.red('\nError saving file:'), error);
+                log.error('Error saving file:', error);
             }
         }
     }
 };
 
 main().catch(error => {
-    console.error('An unexpected error occurred:', error);
+    log.error('An unexpected error occurred:', error);
     process.exit(1);
 }); 
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { cryptoWaitReady, mnemonicToMiniSecret } from '@polkadot/util-crypto';
 import { u8aToHex } from '@polkadot/util';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger('get-private-key');
 
 // --- PASTE YOUR MNEMONIC PHRASE BELOW ---
 const MNEMONIC = "XXXX";
@@ -7,11 +10,11 @@ const MNEMONIC = "XXXX";
 
 async function getPrivateKey() {
   if (MNEMONIC.includes("mnemonic phrase goes here")) {
-    console.error("\n❌ Error: Please replace the placeholder text with your actual mnemonic phrase in the script.");
+    log.error("Please replace the placeholder text with your actual mnemonic phrase in the script.");
     process.exit(1);
   }
 
-  console.log("Deriving 32-byte seed from mnemonic...");
+  log.info("Deriving 32-byte seed from mnemonic...");
 
   await cryptoWaitReady();
 
@@ -27,4 +30,4 @@ async function getPrivateKey() {
   console.log("Copy this value and set it as MINER_HOTKEY in your .env file.");
 }
 
-getPrivateKey().catch(console.error); 
\ No newline at end of file
+getPrivateKey().catch(err => log.error('Failed to derive hotkey seed:', err)); 
\ No newline at end of file
@@ -0,0 +1,133 @@
+import path from 'path';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { printTable, type Result } from '../utils/cliUtils';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
+import { openAuditTrail, type AuditQuery, type AuditTrail, type IterationOutcome } from '../validator/auditTrail';
+
+const log = getLogger('history');
+
+const OUTCOMES: IterationOutcome[] = ['submitted', 'skipped', 'failed'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseTime = (value: string, name: string): Result<number> => {
+  const time = Date.parse(value);
+  if (isNaN(time)) return [0, new Error(`--${name} expects a date or ISO timestamp (e.g. 2026-10-13 or 2026-10-13T14:00:00Z), got "${value}"`)];
+  return [time, null];
+};
+
+const formatTime = (ms: number): string => new Date(ms).toISOString().replace('T', ' ').slice(0, 19);
+
+const formatWeight = (value: number | null): string => (value === null ? '-' : value.toFixed(6));
+
+const printUid = (trail: AuditTrail, uid: number, query: AuditQuery, json: boolean): Error | null => {
+  const [entries, err] = trail.queryUid(uid, query);
+  if (err) return err;
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return null;
+  }
+  if (!entries.length) {
+    console.log(`No iterations recorded for UID ${uid}`);
+    return null;
+  }
+  printTable(
+    ['time (UTC)', 'id', 'outcome', 'hotkey', 'combined', 'ema', 'normalized', 'u16', 'block', 'reason'],
+    entries.map(e => [
+      formatTime(e.startedAt),
+      String(e.id),
+      e.outcome,
+      e.hotkey ?? '-',
+      formatWeight(e.combined),
+      formatWeight(e.ema),
+      formatWeight(e.normalized),
+      e.submitted === null ? '-' : String(e.submitted),
+      e.blockNumber === null ? '-' : String(e.blockNumber),
+      e.reason,
+    ]),
+  );
+  console.log(`\n"combined" is the weight the sources gave UID ${uid}, "ema" its smoothed weight; show an iteration in full with --id <id>`);
+  return null;
+};
+
+const printIterations = (trail: AuditTrail, query: AuditQuery, json: boolean): Error | null => {
+  const [iterations, err] = trail.queryIterations(query);
+  if (err) return err;
+  if (json) {
+    console.log(JSON.stringify(iterations, null, 2));
+    return null;
+  }
+  if (!iterations.length) {
+    console.log('No iterations recorded');
+    return null;
+  }
+  printTable(
+    ['time (UTC)', 'id', 'iteration', 'outcome', 'uids', 'block', 'tx', 'reason'],
+    iterations.map(i => [
+      formatTime(i.startedAt),
+      String(i.id),
+      String(i.iteration),
+      i.outcome,
+      String(i.uids),
+      i.blockNumber === null ? '-' : String(i.blockNumber),
+      i.txHash ?? '-',
+      [i.reason, ...i.errors.filter(e => e !== i.reason)].join('; '),
+    ]),
+  );
+  return null;
+};
+
+async function main(): Promise<Result<void>> {
+  const config = getConfig();
+  const argv = yargs(hideBin(process.argv))
+    .usage('Usage: bunx tsx scripts/history.ts [--uid 12] [--day 2026-10-13 | --from <time> --to <time>] [--outcome submitted|skipped|failed] [--id 42] [--limit 50] [--json]')
+    .option('db', { type: 'string', default: config.auditTrail.file || path.join(__dirname, '..', 'logs', 'audit.sqlite'), describe: 'Audit trail database' })
+    .option('uid', { type: 'number', describe: 'Show what this UID was given in every iteration' })
+    .option('id', { type: 'number', describe: 'Print one recorded iteration in full as JSON' })
+    .option('day', { type: 'string', describe: 'Only iterations started on this UTC day' })
+    .option('from', { type: 'string', describe: 'Only iterations started at or after this time' })
+    .option('to', { type: 'string', describe: 'Only iterations started before this time' })
+    .option('outcome', { type: 'string', choices: OUTCOMES, describe: 'Only iterations with this outcome' })
+    .option('limit', { type: 'number', default: 50, describe: 'Most recent iterations to show' })
+    .option('json', { type: 'boolean', default: false, describe: 'Print JSON instead of a table' })
+    .help(false)
+    .version(false)
+    .parseSync();
+
+  const query: AuditQuery = { limit: argv.limit, outcome: argv.outcome as IterationOutcome | undefined };
+  if (!(query.limit > 0)) return [undefined, new Error('--limit must be positive')];
+  if (argv.day && (argv.from || argv.to)) return [undefined, new Error('--day cannot be combined with --from/--to')];
+  if (argv.day) {
+    const [day, dayErr] = parseTime(argv.day, 'day');
+    if (dayErr) return [undefined, dayErr];
+    query.from = day;
+    query.to = day + DAY_MS;
+  }
+  for (const name of ['from', 'to'] as const) {
+    if (!argv[name]) continue;
+    const [time, timeErr] = parseTime(argv[name], name);
+    if (timeErr) return [undefined, timeErr];
+    query[name] = time;
+  }
+
+  const [trail, openErr] = openAuditTrail(argv.db, { readonly: true });
+  if (openErr || !trail) return [undefined, openErr ?? new Error(`cannot open ${argv.db}`)];
+  try {
+    if (argv.id !== undefined) {
+      const [record, err] = trail.getIteration(argv.id);
+      if (err) return [undefined, err];
+      if (!record) return [undefined, new Error(`no iteration with id ${argv.id} in ${argv.db}`)];
+      console.log(JSON.stringify(record, null, 2));
+      return [undefined, null];
+    }
+    const err = argv.uid !== undefined ? printUid(trail, argv.uid, query, argv.json) : printIterations(trail, query, argv.json);
+    return [undefined, err];
+  } finally {
+    trail.close();
+  }
+}
+
+void main().then(([_, err]) => {
+  if (err) { log.error(err.message); process.exit(1); }
+});
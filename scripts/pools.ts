@@ -1,8 +1,12 @@
 import { formatAddress } from '../utils/poolUtils';
 import * as fs from 'fs';
 import * as readline from 'readline';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
 
-const PRODUCTION_URL = process.env.PRODUCTION_URL || 'https://77.creativebuilds.io';
+const PRODUCTION_URL = getConfig().serverUrl;
+
+const log = getLogger('pools');
 
 interface Voter {
   address: string;
@@ -136,9 +140,9 @@ function savePoolCSV(pools: Pool[]): void {
   
   try {
     fs.writeFileSync(filename, csvContent);
-    console.log(`✅ Pool data saved to ${filename}`);
+    log.info(`Pool data saved to ${filename}`);
   } catch (error) {
-    console.error('❌ Error saving CSV file:', error);
+    log.error('Error saving CSV file:', error);
   }
 }
 
@@ -160,23 +164,23 @@ async function askForCSVSave(pools: Pool[]): Promise<void> {
 }
 
 async function main(): Promise<void> {
-  console.log('🔍 Fetching pool information...');
+  log.info('Fetching pool information...');
   
   const [poolsData, error] = await fetchPools();
   if (error) {
-    console.error('❌ Error fetching pools:', error);
+    log.error('Error fetching pools:', error);
     process.exit(1);
   }
 
   if (!poolsData) {
-    console.error('❌ No data received');
+    log.error('No data received');
     process.exit(1);
   }
 
   displayPoolsTable(poolsData.pools, poolsData.totalAlphaTokens);
   
   if (poolsData.cached) {
-    console.log('💡 Data served from cache');
+    log.info('Data served from cache');
   }
 
   await askForCSVSave(poolsData.pools);
@@ -185,6 +189,6 @@ async function main(): Promise<void> {
 main()
   .then(() => process.exit(0))
   .catch((error) => {
-    console.error('❌ Unexpected error:', error);
+    log.error('Unexpected error:', error);
     process.exit(1);
   }); 
\ No newline at end of file
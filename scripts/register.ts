@@ -7,32 +7,36 @@ import {
 } from '@polkadot/util-crypto';
 import { u8aToHex, hexToU8a } from '@polkadot/util';
 import { fetchCurrentBittensorBlock, closeBittensorConnection } from '../utils/bittensorUtils';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
 
-const PRODUCTION_URL = 'https://77.creativebuilds.io';
+const PRODUCTION_URL = getConfig().serverUrl;
+
+const log = getLogger('register');
 
 async function claimAddress() {
   await cryptoWaitReady();
 
-  const privateKeyHex = process.env.MINER_HOTKEY;
+  const privateKeyHex = getConfig().keys.minerHotkey;
   if (!privateKeyHex) {
-    console.error('Error: MINER_HOTKEY environment variable is required');
+    log.error('MINER_HOTKEY (keys.minerHotkey) is required');
     process.exit(1);
   }
 
   if (!privateKeyHex.startsWith('0x')) {
-    console.error('Error: MINER_HOTKEY must be a hex string starting with 0x');
+    log.error('MINER_HOTKEY must be a hex string starting with 0x');
     process.exit(1);
   }
 
   const [currentBlock, blockErr] = await fetchCurrentBittensorBlock();
   if (blockErr) {
-    console.error('Error: Failed to fetch current block:', blockErr);
+    log.error('Failed to fetch current block:', blockErr);
     process.exit(1);
   }
 
-  const ethKeyHex = process.env.ETH_KEY;
+  const ethKeyHex = getConfig().keys.ethKey;
   if (!ethKeyHex) {
-    console.error('Error: ETH_KEY environment variable is required');
+    log.error('ETH_KEY (keys.ethKey) is required');
     process.exit(1);
   }
 
@@ -43,7 +47,7 @@ async function claimAddress() {
   const hotkeyPair = sr25519PairFromSeed(seed);
   const hotkeyAddress = encodeAddress(hotkeyPair.publicKey, 42);
 
-  console.log('Generating claim request...');
+  log.info('Generating claim request...');
   console.log('Hotkey Address:', hotkeyAddress);
   console.log('Ethereum Address:', ethAddress);
   console.log('Current Block:', currentBlock);
@@ -71,20 +75,20 @@ async function claimAddress() {
     console.log('\nResponse:', result);
 
     if (!result.success) {
-      console.error('Error:', result.error);
+      log.error('Claim request rejected:', result.error);
       process.exit(1);
     }
 
     console.log('\nSuccessfully claimed address!');
   } catch (error) {
-    console.error('Error making request:', error);
+    log.error('Error making request:', error);
     process.exit(1);
   }
 }
 
 const args = process.argv.slice(2);
 if (args.length > 0) {
-  console.error('Error: This script does not accept arguments');
+  log.error('This script does not accept arguments');
   console.error('Usage: MINER_HOTKEY=0x... ETH_KEY=0x... bun run claimAddress');
   process.exit(1);
 }
@@ -95,7 +99,7 @@ claimAddress()
     process.exit(0);
   })
   .catch(async (error) => {
-    console.error('Error:', error);
+    log.error('Unexpected error:', error);
     await closeBittensorConnection();
     process.exit(1);
   }); 
\ No newline at end of file
@@ -9,10 +9,14 @@ import { fetchCurrentBittensorBlock, closeBittensorConnection } from '../utils/b
 import { formatAddress, normalizePoolWeights, Pool } from '../utils/poolUtils';
 import { searchPools } from '../utils/poolSearchUtils';
 import * as readline from 'readline';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
 
-const PRODUCTION_URL = 'https://77.creativebuilds.io';
+const PRODUCTION_URL = getConfig().serverUrl;
 const MAX_POOLS = 10;
 
+const log = getLogger('vote');
+
 async function askQuestion(rl: readline.Interface, question: string): Promise<string> {
   return new Promise((resolve) => {
     rl.question(question, (answer) => {
@@ -40,7 +44,7 @@ async function getPoolsFromUser(retractMode: boolean = false): Promise<[Pool[],
       const [searchResults, searchErr] = await searchPools(searchQuery);
       
       if (searchErr) {
-        console.error('Error searching pools:', searchErr);
+        log.error('Error searching pools:', searchErr);
         continue;
       }
 
@@ -114,20 +118,20 @@ async function getPoolsFromUser(retractMode: boolean = false): Promise<[Pool[],
 async function submitVotes(retractMode: boolean = false) {
   await cryptoWaitReady();
 
-  const privateKeyHex = process.env.HOLDER_COLDKEY;
+  const privateKeyHex = getConfig().keys.holderColdkey;
   if (!privateKeyHex) {
-    console.error('Error: HOLDER_COLDKEY environment variable is required');
+    log.error('HOLDER_COLDKEY (keys.holderColdkey) is required');
     process.exit(1);
   }
 
   if (!privateKeyHex.startsWith('0x')) {
-    console.error('Error: HOLDER_COLDKEY must be a hex string starting with 0x');
+    log.error('HOLDER_COLDKEY must be a hex string starting with 0x');
     process.exit(1);
   }
 
   const [currentBlock, blockErr] = await fetchCurrentBittensorBlock();
   if (blockErr) {
-    console.error('Error: Failed to fetch current block:', blockErr);
+    log.error('Failed to fetch current block:', blockErr);
     process.exit(1);
   }
 
@@ -136,16 +140,16 @@ async function submitVotes(retractMode: boolean = false) {
   const coldkeyAddress = encodeAddress(coldkeyPair.publicKey, 42);
 
   if (retractMode) {
-    console.log('Retracting all votes...');
+    log.info('Retracting all votes...');
   } else {
-    console.log('Generating vote submission...');
+    log.info('Generating vote submission...');
   }
   console.log('Coldkey Address:', coldkeyAddress);
   console.log('Current Block:', currentBlock);
 
   const [pools, poolsErr] = await getPoolsFromUser(retractMode);
   if (poolsErr) {
-    console.error('Error:', poolsErr);
+    log.error('Failed to collect pool allocations:', poolsErr);
     process.exit(1);
   }
 
@@ -183,7 +187,7 @@ async function submitVotes(retractMode: boolean = false) {
     console.log('\nResponse:', result);
 
     if (!result.success) {
-      console.error('Error:', result.error);
+      log.error('Vote submission rejected:', result.error);
       process.exit(1);
     }
 
@@ -193,7 +197,7 @@ async function submitVotes(retractMode: boolean = false) {
       console.log('\nSuccessfully submitted votes!');
     }
   } catch (error) {
-    console.error('Error making request:', error);
+    log.error('Error making request:', error);
     process.exit(1);
   }
 }
@@ -202,7 +206,7 @@ const args = process.argv.slice(2);
 const retractMode = args.includes('--retract') || args.includes('-r');
 
 if (args.length > 0 && !retractMode) {
-  console.error('Error: Invalid arguments');
+  log.error('Invalid arguments');
   console.error('Usage: HOLDER_COLDKEY=0x... bun run submitVotes [--retract|-r]');
   console.error('  --retract, -r: Retract all votes (send empty allocation)');
   process.exit(1);
@@ -214,7 +218,7 @@ submitVotes(retractMode)
     process.exit(0);
   })
   .catch(async (error) => {
-    console.error('Error:', error);
+    log.error('Unexpected error:', error);
     await closeBittensorConnection();
     process.exit(1);
   }); 
\ No newline at end of file
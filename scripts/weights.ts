@@ -1,57 +1,31 @@
-import { ApiPromise, WsProvider } from '@polkadot/api';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import dotenv from 'dotenv';
+import { getDefaultConnectionManager } from '../utils/connectionManager';
+import { fetchHotkeyUid, fetchValidatorWeights } from '../utils/bittensorUtils';
+import { getConfig } from '../utils/config';
+import { getLogger } from '../utils/logger';
 
-dotenv.config();
+const log = getLogger('weights');
 
 // Standard [value, err] tuple type
 export type Result<T> = [T, Error | null];
 
-async function getValidatorWeights(hotkey: string, netuid = 77): Promise<Result<number[]>> {
+async function getValidatorWeights(hotkey: string, netuid = getConfig().netuid): Promise<Result<number[]>> {
   try {
-    const wsUrl = process.env.BITTENSOR_WS_URL || 'wss://entrypoint-finney.opentensor.ai:443';
-    const provider = new WsProvider(wsUrl);
-    const api = await ApiPromise.create({ provider });
-    await api.isReady;
-
-    let uid: number | null = null;
-    // Resolve UID for hotkey (storage name changed in newer runtimes)
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore – access dynamic storage items safely
-    if (api.query.subtensorModule.keyToUid) {
-      // Legacy mapping
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      const uidCodec = await api.query.subtensorModule.keyToUid(netuid, hotkey);
-      const uidResult = (uidCodec as any).toString();
-      if (uidResult && uidResult !== '0x') uid = Number(uidResult);
-    } else if ((api.query.subtensorModule as any).uids) {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      const uidCodec = await (api.query.subtensorModule as any).uids(netuid, hotkey);
-      const uidResult = (uidCodec as any).toString();
-      if (uidResult && uidResult !== '0x') uid = Number(uidResult);
-    }
+    const api = await getDefaultConnectionManager().getApi();
 
+    const [uid, uidErr] = await fetchHotkeyUid(api, netuid, hotkey);
+    if (uidErr) return [[], uidErr];
     if (uid === null) return [[], new Error('hotkey not registered on subnet')];
 
     // Fetch weight vector for the validator uid
-    let floats: number[] = [];
-    try {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      const weightsCodec = await api.query.subtensorModule.weights(netuid, uid);
-      const raw = (weightsCodec as any).toJSON();
-      if (Array.isArray(raw)) {
-        const pairs: [number, number][] = raw as [number, number][];
-        floats = [];
-        for (const [target, w] of pairs) floats[target] = w / 65535;
-      }
-    } catch (wErr) {
+    const floats: number[] = [];
+    const [weights, wErr] = await fetchValidatorWeights(api, netuid, uid);
+    if (wErr) {
       // Ignore weight fetch errors; return empty
-      console.warn('failed to fetch weights:', (wErr as Error).message);
+      log.warn('failed to fetch weights:', wErr.message);
     }
+    for (const [target, w] of Object.entries(weights)) floats[Number(target)] = w / 65535;
 
     return [floats, null];
   } catch (err) {
@@ -61,8 +35,8 @@ async function getValidatorWeights(hotkey: string, netuid = 77): Promise<Result<
 
 async function main(): Promise<Result<void>> {
   const argv = yargs(hideBin(process.argv))
-    .usage('Usage: bunx tsx scripts/weights.ts <hotkey> [--netuid 77]')
-    .option('netuid', { alias: 'n', type: 'number', default: 77, describe: 'Subnet netuid' })
+    .usage('Usage: bunx tsx scripts/weights.ts <hotkey> [--netuid 77] [--config <file>] [--set <path>=<value>]')
+    .option('netuid', { alias: 'n', type: 'number', default: getConfig().netuid, describe: 'Subnet netuid' })
     .help(false)
     .version(false)
     .parseSync();
@@ -91,4 +65,7 @@ async function main(): Promise<Result<void>> {
   return [undefined, null];
 }
 
-void main().then(([_, err]) => { if (err) { console.error(err.message); process.exit(1); } });
+void main().then(async ([_, err]) => {
+  await getDefaultConnectionManager().close();
+  if (err) { log.error(err.message); process.exit(1); }
+});
@@ -1,19 +1,15 @@
-import { ApiPromise, WsProvider } from '@polkadot/api';
+import { ApiPromise } from '@polkadot/api';
+import { getDefaultConnectionManager } from './connectionManager';
+import { getLogger } from './logger';
 
-// Bittensor substrate connection
-const BITTENSOR_WS_ENDPOINT = 'wss://entrypoint-finney.opentensor.ai:443';
-let bittensorApi: ApiPromise | null = null;
+const log = getLogger('bittensor');
 
+// Bittensor substrate connection (endpoints from BITTENSOR_NETWORK / BITTENSOR_WS_URL)
 const initBittensorConnection = async (): Promise<ApiPromise> => {
-    if (bittensorApi && bittensorApi.isConnected) return bittensorApi;
-    
     try {
-        const provider = new WsProvider(BITTENSOR_WS_ENDPOINT);
-        bittensorApi = await ApiPromise.create({ provider });
-        console.log('Connected to Bittensor substrate node');
-        return bittensorApi;
+        return await getDefaultConnectionManager().getApi();
     } catch (error: any) {
-        console.error('Failed to connect to Bittensor substrate node:', error);
+        log.error('Failed to connect to Bittensor substrate node:', error);
         throw error;
     }
 };
@@ -25,16 +21,16 @@ export const fetchCurrentBittensorBlock = async (): Promise<[number, string | nu
         const blockNumber = header.number.toNumber();
         return [blockNumber, null];
     } catch (error: any) {
-        console.error('Error fetching Bittensor block number:', error);
+        log.error('Error fetching Bittensor block number:', error);
         return [0, `Failed to fetch block number: ${error.message}`];
     }
 };
 
 export const closeBittensorConnection = async (): Promise<void> => {
-    if (bittensorApi && bittensorApi.isConnected) {
-        await bittensorApi.disconnect();
-        bittensorApi = null;
-        console.log('Disconnected from Bittensor substrate node');
+    const manager = getDefaultConnectionManager();
+    if (manager.current()) {
+        await manager.close();
+        log.info('Disconnected from Bittensor substrate node');
     }
 };
 
@@ -44,33 +40,33 @@ let subnetHotkeysCache: { data: string[]; lastUpdated: number } = { data: [], la
 export const getSubnetHotkeys = () => subnetHotkeysCache.data;
 
 export const initializeSubnetHotkeysCache = async (netuid = 77): Promise<[boolean, string | null]> => {
-    console.log(`[INIT] Initializing subnet hotkeys cache for netuid ${netuid}...`);
+    log.info(`[INIT] Initializing subnet hotkeys cache for netuid ${netuid}...`);
     const [hotkeys, err] = await fetchSubnetHotkeys(netuid, true);
     if (err) {
-        console.error(`[ERROR] Failed to initialize subnet hotkeys cache for netuid ${netuid}:`, err);
+        log.error(`Failed to initialize subnet hotkeys cache for netuid ${netuid}:`, err);
         return [false, err];
     }
     subnetHotkeysCache = { data: hotkeys, lastUpdated: Date.now() };
-    console.log(`[SUCCESS] Subnet hotkeys cache initialized for netuid ${netuid} with ${hotkeys.length} hotkeys`);
+    log.info(`[SUCCESS] Subnet hotkeys cache initialized for netuid ${netuid} with ${hotkeys.length} hotkeys`);
     return [true, null];
 };
 
 export const refreshSubnetHotkeysIfNeeded = async (netuid = 77): Promise<void> => {
     if (Date.now() - subnetHotkeysCache.lastUpdated < HOTKEYS_CACHE_TTL_MS) return;
-    console.log(`[REFRESH] Refreshing subnet hotkeys cache for netuid ${netuid} (cache expired)...`);
+    log.info(`[REFRESH] Refreshing subnet hotkeys cache for netuid ${netuid} (cache expired)...`);
     const [hotkeys, _] = await fetchSubnetHotkeys(netuid, true);
     if (hotkeys.length) {
         const previousCount = subnetHotkeysCache.data.length;
         subnetHotkeysCache = { data: hotkeys, lastUpdated: Date.now() };
-        console.log(`[SUCCESS] Subnet hotkeys cache refreshed for netuid ${netuid}: ${previousCount} → ${hotkeys.length} hotkeys`);
+        log.info(`[SUCCESS] Subnet hotkeys cache refreshed for netuid ${netuid}: ${previousCount} → ${hotkeys.length} hotkeys`);
     } else {
-        console.warn(`[WARN] Failed to refresh subnet hotkeys cache for netuid ${netuid} - keeping existing cache`);
+        log.warn(`Failed to refresh subnet hotkeys cache for netuid ${netuid} - keeping existing cache`);
     }
 };
 
 export const startPeriodicSubnetHotkeysRefresh = (netuid = 77): void => {
     setInterval(async () => {
-        try { await refreshSubnetHotkeysIfNeeded(netuid); } catch (err) { console.error(err); }
+        try { await refreshSubnetHotkeysIfNeeded(netuid); } catch (err) { log.error(`Failed to refresh subnet hotkeys cache for netuid ${netuid}:`, err); }
     }, 60_000); // check every minute
 };
 
@@ -97,7 +93,7 @@ const fetchSingleHotkey = async (api: ApiPromise, netuid: number, uid: number):
             
             if (attempt < MAX_RETRIES) {
                 const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, attempt), MAX_RETRY_DELAY);
-                console.warn(`[RETRY] UID ${uid} fetch failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}), retrying in ${delay}ms:`, error);
+                log.warn(`[RETRY] UID ${uid} fetch failed (attempt ${attempt + 1}/${MAX_RETRIES + 1}), retrying in ${delay}ms:`, error);
                 await sleep(delay);
             }
         }
@@ -108,11 +104,11 @@ const fetchSingleHotkey = async (api: ApiPromise, netuid: number, uid: number):
 
 export const fetchSubnetHotkeys = async (netuid: number, skipCache = false): Promise<[string[], string | null]> => {
     if (!skipCache && Date.now() - subnetHotkeysCache.lastUpdated < HOTKEYS_CACHE_TTL_MS && subnetHotkeysCache.data.length) {
-        console.log(`[CACHE] Using cached subnet hotkeys for netuid ${netuid} (${subnetHotkeysCache.data.length} hotkeys, age: ${Math.round((Date.now() - subnetHotkeysCache.lastUpdated) / 1000)}s)`);
+        log.info(`[CACHE] Using cached subnet hotkeys for netuid ${netuid} (${subnetHotkeysCache.data.length} hotkeys, age: ${Math.round((Date.now() - subnetHotkeysCache.lastUpdated) / 1000)}s)`);
         return [subnetHotkeysCache.data, null];
     }
     
-    console.log(`[FETCH] Fetching subnet hotkeys for netuid ${netuid}...`);
+    log.info(`[FETCH] Fetching subnet hotkeys for netuid ${netuid}...`);
     const startTime = Date.now();
     
     try {
@@ -123,10 +119,10 @@ export const fetchSubnetHotkeys = async (netuid: number, skipCache = false): Pro
         const totalBn = await api.query.subtensorModule.subnetworkN(netuid);
         const total = (totalBn as any).toNumber?.() ?? Number(totalBn);
         
-        console.log(`[INFO] Subnet ${netuid} has ${total} total UIDs to fetch`);
+        log.info(`Subnet ${netuid} has ${total} total UIDs to fetch`);
         
         if (total === 0) {
-            console.warn(`[WARN] Subnet ${netuid} has no UIDs - returning empty array`);
+            log.warn(`Subnet ${netuid} has no UIDs - returning empty array`);
             return [[], null];
         }
         
@@ -135,14 +131,14 @@ export const fetchSubnetHotkeys = async (netuid: number, skipCache = false): Pro
         const BATCH = 8; // reduced batch size
         const totalBatches = Math.ceil(total / BATCH);
         
-        console.log(`[PROCESS] Processing ${total} UIDs in ${totalBatches} batches of ${BATCH} (with ${MAX_RETRIES + 1} max attempts per UID)...`);
+        log.info(`[PROCESS] Processing ${total} UIDs in ${totalBatches} batches of ${BATCH} (with ${MAX_RETRIES + 1} max attempts per UID)...`);
         
         for (let start = 0; start < total; start += BATCH) {
             const currentBatch = Math.floor(start / BATCH) + 1;
             const batchEnd = Math.min(start + BATCH, total);
             const batchSize = batchEnd - start;
             
-            console.log(`[BATCH] Processing batch ${currentBatch}/${totalBatches}: UIDs ${start}-${batchEnd - 1} (${batchSize} UIDs)`);
+            log.info(`[BATCH] Processing batch ${currentBatch}/${totalBatches}: UIDs ${start}-${batchEnd - 1} (${batchSize} UIDs)`);
             
             const tasks: Promise<void>[] = [];
             for (let uid = start; uid < batchEnd; uid++) {
@@ -153,7 +149,7 @@ export const fetchSubnetHotkeys = async (netuid: number, skipCache = false): Pro
                             hotkeys.push(hotkey);
                         } else {
                             failedUIDs.push(uid);
-                            console.error(`[ERROR] Permanently failed to fetch UID ${uid}:`, error);
+                            log.error(`Permanently failed to fetch UID ${uid}:`, error);
                         }
                     })(),
                 );
@@ -164,7 +160,7 @@ export const fetchSubnetHotkeys = async (netuid: number, skipCache = false): Pro
             if (currentBatch % 5 === 0 || currentBatch === totalBatches) {
                 const progress = Math.round((currentBatch / totalBatches) * 100);
                 const failureCount = failedUIDs.length;
-                console.log(`[PROGRESS] ${progress}% complete (${hotkeys.length}/${total} hotkeys fetched, ${failureCount} failed)`);
+                log.info(`[PROGRESS] ${progress}% complete (${hotkeys.length}/${total} hotkeys fetched, ${failureCount} failed)`);
             }
         }
         
@@ -172,41 +168,122 @@ export const fetchSubnetHotkeys = async (netuid: number, skipCache = false): Pro
         const successRate = Math.round((hotkeys.length / total) * 100);
         const failureRate = Math.round((failedUIDs.length / total) * 100);
         
-        console.log(`[COMPLETE] Subnet ${netuid} hotkey fetch completed:`);
-        console.log(`   • Expected UIDs: ${total}`);
-        console.log(`   • Fetched hotkeys: ${hotkeys.length}`);
-        console.log(`   • Failed UIDs: ${failedUIDs.length}`);
-        console.log(`   • Success rate: ${successRate}%`);
-        console.log(`   • Failure rate: ${failureRate}%`);
-        console.log(`   • Duration: ${duration}ms`);
-        console.log(`   • Average: ${Math.round(duration / total)}ms per UID`);
+        log.info(`[COMPLETE] Subnet ${netuid} hotkey fetch completed:`);
+        log.info(`   • Expected UIDs: ${total}`);
+        log.info(`   • Fetched hotkeys: ${hotkeys.length}`);
+        log.info(`   • Failed UIDs: ${failedUIDs.length}`);
+        log.info(`   • Success rate: ${successRate}%`);
+        log.info(`   • Failure rate: ${failureRate}%`);
+        log.info(`   • Duration: ${duration}ms`);
+        log.info(`   • Average: ${Math.round(duration / total)}ms per UID`);
         
         if (failedUIDs.length > 0) {
-            console.warn(`[WARN] ${failedUIDs.length} UIDs failed after all retry attempts:`);
-            console.warn(`   Failed UIDs: [${failedUIDs.slice(0, 10).join(', ')}${failedUIDs.length > 10 ? `... +${failedUIDs.length - 10} more` : ''}]`);
+            log.warn(`${failedUIDs.length} UIDs failed after all retry attempts:`);
+            log.warn(`   Failed UIDs: [${failedUIDs.slice(0, 10).join(', ')}${failedUIDs.length > 10 ? `... +${failedUIDs.length - 10} more` : ''}]`);
             
             // If too many failures, might indicate a systemic issue
             if (failureRate > 10) {
-                console.error(`[ALERT] High failure rate (${failureRate}%) detected - this may indicate network or API issues`);
+                log.error(`[ALERT] High failure rate (${failureRate}%) detected - this may indicate network or API issues`);
             }
         }
         
         if (hotkeys.length !== total) {
-            console.warn(`[WARN] Mismatch detected: expected ${total} UIDs but got ${hotkeys.length} hotkeys (${failedUIDs.length} failed)`);
+            log.warn(`Mismatch detected: expected ${total} UIDs but got ${hotkeys.length} hotkeys (${failedUIDs.length} failed)`);
         }
         
         // Only cache if we have reasonable success rate (>90%)
         if (successRate >= 90) {
             subnetHotkeysCache = { data: hotkeys, lastUpdated: Date.now() };
-            console.log(`[CACHE] Cached ${hotkeys.length} hotkeys for netuid ${netuid}`);
+            log.info(`[CACHE] Cached ${hotkeys.length} hotkeys for netuid ${netuid}`);
         } else {
-            console.warn(`[WARN] Low success rate (${successRate}%) - not caching incomplete data`);
+            log.warn(`Low success rate (${successRate}%) - not caching incomplete data`);
         }
         
         return [hotkeys, failedUIDs.length > 0 ? `${failedUIDs.length} UIDs failed to fetch` : null];
     } catch (error: any) {
         const duration = Date.now() - startTime;
-        console.error(`[ERROR] Error fetching subnet hotkeys for netuid ${netuid} after ${duration}ms:`, error);
+        log.error(`Error fetching subnet hotkeys for netuid ${netuid} after ${duration}ms:`, error);
         return [[], `Failed to fetch hotkeys for subnet ${netuid}: ${error.message}`];
     }
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Walk `subtensorModule.keys` for every UID of the subnet on the given API and
+ * return the hotkeys indexed by UID. Unlike `fetchSubnetHotkeys` the UID order is
+ * preserved, so the result can be used to map hotkeys to UIDs.
+ */
+export const fetchSubnetUidHotkeys = async (api: ApiPromise, netuid: number): Promise<[string[], string | null]> => {
+    try {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        const totalBn = await api.query.subtensorModule.subnetworkN(netuid);
+        const total = (totalBn as any).toNumber?.() ?? Number(totalBn);
+        if (!total) return [[], `Subnet ${netuid} has no UIDs`];
+
+        const hotkeys: string[] = new Array(total).fill('');
+        const failedUIDs: number[] = [];
+        const BATCH = 8;
+
+        for (let start = 0; start < total; start += BATCH) {
+            const batchEnd = Math.min(start + BATCH, total);
+            const tasks: Promise<void>[] = [];
+            for (let uid = start; uid < batchEnd; uid++) {
+                tasks.push(
+                    (async () => {
+                        const [hotkey, error] = await fetchSingleHotkey(api, netuid, uid);
+                        if (hotkey) {
+                            hotkeys[uid] = hotkey;
+                        } else {
+                            failedUIDs.push(uid);
+                            log.error(`Permanently failed to fetch UID ${uid}:`, error);
+                        }
+                    })(),
+                );
+            }
+            await Promise.all(tasks);
+        }
+
+        if (failedUIDs.length > 0) return [hotkeys, `${failedUIDs.length} UIDs failed to fetch`];
+        return [hotkeys, null];
+    } catch (error: any) {
+        return [[], `Failed to fetch UID hotkeys for subnet ${netuid}: ${error.message}`];
+    }
+};
+
+/**
+ * Look up the UID of a hotkey on the subnet. Newer runtimes expose the mapping
+ * as `uids`, older ones as `keyToUid`. Returns null when the hotkey is not registered.
+ */
+export const fetchHotkeyUid = async (api: ApiPromise, netuid: number, hotkey: string): Promise<[number | null, Error | null]> => {
+    try {
+        const module = api.query.subtensorModule as any;
+        const query = module.uids ?? module.keyToUid;
+        if (!query) return [null, new Error('Runtime exposes neither uids nor keyToUid storage')];
+        const uidCodec = await query(netuid, hotkey);
+        const json = uidCodec.toJSON();
+        if (json === null || json === undefined || json === '0x') return [null, null];
+        return [Number(json), null];
+    } catch (error) {
+        return [null, error instanceof Error ? error : new Error(String(error))];
+    }
+};
+
+/**
+ * Read the weight row a validator UID currently has on chain, as raw u16 values
+ * keyed by target UID (the chain max-upscales rows, so they do not sum to 65535).
+ */
+export const fetchValidatorWeights = async (api: ApiPromise, netuid: number, uid: number): Promise<[Record<string, number>, Error | null]> => {
+    try {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        const weightsCodec = await api.query.subtensorModule.weights(netuid, uid);
+        const raw = (weightsCodec as any).toJSON();
+        const weights: Record<string, number> = {};
+        if (Array.isArray(raw)) {
+            for (const [target, value] of raw as [number, number][]) weights[target.toString()] = value;
+        }
+        return [weights, null];
+    } catch (error) {
+        return [{}, error instanceof Error ? error : new Error(String(error))];
+    }
+};
@@ -0,0 +1,11 @@
+// Standard [value, err] tuple type
+export type Result<T> = [T, Error | null];
+
+// Print rows as left-aligned columns under a dashed header
+export const printTable = (header: string[], rows: string[][]): void => {
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+    const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+    console.log(line(header));
+    console.log(widths.map(w => '-'.repeat(w)).join('  '));
+    rows.forEach(row => console.log(line(row)));
+};
@@ -0,0 +1,468 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import YAML from 'yaml';
+import { z } from 'zod';
+
+/**
+ * Typed configuration shared by the validator and the scripts.
+ *
+ * Layers, lowest to highest precedence: schema defaults, a YAML or JSON config
+ * file (`--config <file>`, `SN77_CONFIG`, or `sn77.config.{yaml,yml,json}` in the
+ * repo root), environment variables (the existing names, see ENV_VARS), and
+ * `--set <path>=<value>` command line overrides. The merged result is validated
+ * against the schema; errors name the offending key and where it came from.
+ */
+
+type Result<T> = [T, Error | null];
+
+const REPO_DIR = path.join(__dirname, '..');
+const DEFAULT_CONFIG_FILES = ['sn77.config.yaml', 'sn77.config.yml', 'sn77.config.json'];
+
+// Env and CLI values are strings; these accept both strings and native values
+const num = () => z.coerce.number();
+const int = () => z.coerce.number().int();
+const bool = () => z.preprocess(value => {
+    if (typeof value !== 'string') return value;
+    const parsed = ({ true: true, false: false, '1': true, '0': false, yes: true, no: false } as Record<string, boolean>)[value.trim().toLowerCase()];
+    return parsed ?? value;
+}, z.boolean({ invalid_type_error: 'Expected true or false' }));
+const choice = <U extends string, T extends [U, ...U[]]>(values: T) =>
+    z.preprocess(value => (typeof value === 'string' ? value.trim().toLowerCase() : value), z.enum(values));
+// A missing section gets all of its defaults
+const section = <T extends z.ZodRawShape>(shape: T) => z.preprocess(value => value ?? {}, z.object(shape).strict());
+
+export const configSchema = z.object({
+    netuid: int().min(0).default(77),
+    // weights server used by the validator and the scripts
+    serverUrl: z.string().url().default('https://77.creativebuilds.io'),
+    subtensor: section({
+        network: choice(['finney', 'testnet', 'localnet']).default('finney'),
+        // comma-separated endpoints, overrides the network preset
+        wsUrl: z.string().default(''),
+        healthCheckIntervalMs: int().positive().default(5 * 60 * 1000),
+    }),
+    logging: section({
+        level: choice(['error', 'warn', 'info', 'debug']).default('info'),
+        format: choice(['pretty', 'json']).default('pretty'),
+        maxSize: z.string().default('20m'),
+        maxFiles: z.string().default('14d'),
+        // show every log line on the console instead of errors and progress only
+        console: bool().default(false),
+    }),
+    validator: section({
+        testMode: bool().default(false),
+        loopDelayMs: int().positive().default(300000),
+        // only used when the weights rate limit cannot be read
+        setIntervalMs: int().positive().default(101 * 12 * 1000),
+        emaAlpha: num().gt(0).max(1).default(0.2),
+        maxConsecutiveErrors: int().positive().default(5),
+        cacheDurationMs: int().min(0).default(5 * 60 * 1000),
+        stateMaxAgeMs: int().min(0).default(6 * 60 * 60 * 1000),
+        shutdownTimeoutMs: int().positive().default(60 * 1000),
+    }),
+    autoUpdate: section({
+        enabled: bool().default(false),
+        policy: choice(['patch', 'minor', 'major']).default('minor'),
+        tagPrefix: z.string().default('v'),
+        requireSignedTag: bool().default(false),
+    }),
+    audit: section({
+        mode: choice(['off', 'report', 'enforce']).default('off'),
+        tolerance: num().min(0).max(2).default(0.05),
+    }),
+    anomalyGuard: section({
+        mode: choice(['off', 'report', 'enforce']).default('report'),
+        maxL1: num().min(0).max(2).default(1),
+        // 0 disables the KL divergence check
+        maxKl: num().min(0).default(0),
+        maxShare: num().positive().max(1).default(0.5),
+        maxDisappeared: num().min(0).max(1).default(0.3),
+        historySize: int().positive().default(12),
+        // consecutive quarantines after which a persistent shift is accepted (0 = never)
+        releaseAfter: int().min(0).default(12),
+    }),
+    watchdog: section({
+        // pause weight submission while deregistered, without permit or below the stake threshold
+        enabled: bool().default(true),
+        intervalBlocks: int().positive().default(25),
+    }),
+    uidResolution: section({
+        mismatchPolicy: choice(['warn', 'block']).default('warn'),
+    }),
+    transactions: section({
+        // return once the extrinsic is in a block, or wait until that block is finalized
+        waitFor: choice(['inclusion', 'finality']).default('inclusion'),
+        // mortality in blocks, 0 for immortal extrinsics
+        eraPeriod: int().min(0).default(64),
+        timeoutMs: int().positive().default(5 * 60 * 1000),
+        // submissions per extrinsic when the pool drops or rejects it
+        maxAttempts: int().positive().default(3),
+    }),
+    weightDiff: section({
+        threshold: num().min(0).max(2).default(0),
+        maxSkipBlocks: int().min(0).default(1000),
+    }),
+    payloadSignature: section({
+        signerKey: z.string().default(''),
+        // defaults to enforce when a signer key is pinned, off otherwise
+        policy: choice(['off', 'warn', 'enforce']).optional(),
+        maxAgeMs: int().positive().default(15 * 60 * 1000),
+    }),
+    weightSources: section({
+        // defaults to http:<serverUrl>
+        sources: z.string().optional(),
+        consensus: choice(['median', 'quorum']).default('median'),
+        // defaults to a majority of the sources
+        quorum: int().positive().optional(),
+    }),
+    snapshots: section({
+        // record the combined source weights every iteration for the backtest
+        enabled: bool().default(true),
+        retentionDays: num().positive().default(14),
+    }),
+    auditTrail: section({
+        // record every iteration in an SQLite database, queried with scripts/history.ts
+        enabled: bool().default(true),
+        // defaults to <log dir>/audit.sqlite
+        file: z.string().default(''),
+        retentionDays: num().positive().default(90),
+    }),
+    alerts: section({
+        webhooks: z.string().default(''),
+        dedupWindowMs: int().min(0).default(30 * 60 * 1000),
+        maxPerHour: int().min(0).default(20),
+        wsStormThreshold: int().positive().default(5),
+        wsStormWindowMs: int().positive().default(10 * 60 * 1000),
+    }),
+    simulation: section({
+        // scenario file; runs the validator offline against a simulated chain and server
+        scenario: z.string().default(''),
+    }),
+    metrics: section({
+        // 0 disables the metrics/health server
+        port: int().min(0).max(65535).default(0),
+        host: z.string().default('127.0.0.1'),
+    }),
+    control: section({
+        // 0 disables the control API on 127.0.0.1
+        port: int().min(0).max(65535).default(0),
+        // Unix socket path, used instead of the port when set
+        socket: z.string().default(''),
+        // bearer token, generated when missing; defaults to <log dir>/control.token
+        tokenFile: z.string().default(''),
+    }),
+    eth: section({
+        rpcUrl: z.string().url().default('https://eth.llamarpc.com'),
+        // subtensor EVM network used by the balance script
+        network: choice(['mainnet', 'testnet', 'localnet']).default('mainnet'),
+    }),
+    wallet: section({
+        // Bittensor wallet holding the validator hotkey: <path>/<name>/hotkeys/<hotkey>
+        name: z.string().default(''),
+        hotkey: z.string().default('default'),
+        path: z.string().default('~/.bittensor/wallets'),
+        // polkadot-js encrypted JSON keystore, unlocked with passwordFile or a terminal prompt
+        keystore: z.string().default(''),
+        passwordFile: z.string().default(''),
+    }),
+    keys: section({
+        validatorHotkeyUri: z.string().default(''),
+        minerHotkey: z.string().default(''),
+        ethKey: z.string().default(''),
+        ethPrivkey: z.string().default(''),
+        holderColdkey: z.string().default(''),
+    }),
+}).strict().superRefine((config, ctx) => {
+    if (config.payloadSignature.policy && config.payloadSignature.policy !== 'off' && !config.payloadSignature.signerKey) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['payloadSignature', 'signerKey'], message: `required when payloadSignature.policy is ${config.payloadSignature.policy}` });
+    }
+    // The updater's smoke test and the restarted validator have no terminal to prompt on
+    if (config.autoUpdate.enabled && config.wallet.keystore && !config.wallet.passwordFile) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['wallet', 'passwordFile'], message: 'required when autoUpdate.enabled is set with wallet.keystore, an update cannot prompt for the password' });
+    }
+});
+
+export type Config = z.infer<typeof configSchema>;
+
+// Environment variables and the config keys they set; later entries win
+export const ENV_VARS: Record<string, string> = {
+    NETUID: 'netuid',
+    PRODUCTION_URL: 'serverUrl',
+    SERVER_URL: 'serverUrl',
+    BITTENSOR_NETWORK: 'subtensor.network',
+    BITTENSOR_WS_URL: 'subtensor.wsUrl',
+    WS_HEALTH_CHECK_INTERVAL_MS: 'subtensor.healthCheckIntervalMs',
+    LOG_LEVEL: 'logging.level',
+    LOG_FORMAT: 'logging.format',
+    LOG_MAX_SIZE: 'logging.maxSize',
+    LOG_MAX_FILES: 'logging.maxFiles',
+    LOG: 'logging.console',
+    TEST_MODE: 'validator.testMode',
+    LOOP_DELAY_MS: 'validator.loopDelayMs',
+    SET_INTERVAL_MS: 'validator.setIntervalMs',
+    EMA_ALPHA: 'validator.emaAlpha',
+    MAX_CONSECUTIVE_ERRORS: 'validator.maxConsecutiveErrors',
+    CACHE_DURATION_MS: 'validator.cacheDurationMs',
+    STATE_MAX_AGE_MS: 'validator.stateMaxAgeMs',
+    SHUTDOWN_TIMEOUT_MS: 'validator.shutdownTimeoutMs',
+    AUTO_UPDATE_ENABLED: 'autoUpdate.enabled',
+    AUTO_UPDATE_POLICY: 'autoUpdate.policy',
+    AUTO_UPDATE_TAG_PREFIX: 'autoUpdate.tagPrefix',
+    AUTO_UPDATE_REQUIRE_SIGNED_TAG: 'autoUpdate.requireSignedTag',
+    AUDIT_MODE: 'audit.mode',
+    AUDIT_TOLERANCE: 'audit.tolerance',
+    ANOMALY_GUARD_MODE: 'anomalyGuard.mode',
+    ANOMALY_MAX_L1: 'anomalyGuard.maxL1',
+    ANOMALY_MAX_KL: 'anomalyGuard.maxKl',
+    ANOMALY_MAX_SHARE: 'anomalyGuard.maxShare',
+    ANOMALY_MAX_DISAPPEARED: 'anomalyGuard.maxDisappeared',
+    ANOMALY_HISTORY_SIZE: 'anomalyGuard.historySize',
+    ANOMALY_RELEASE_AFTER: 'anomalyGuard.releaseAfter',
+    WATCHDOG_ENABLED: 'watchdog.enabled',
+    WATCHDOG_INTERVAL_BLOCKS: 'watchdog.intervalBlocks',
+    UID_MISMATCH_POLICY: 'uidResolution.mismatchPolicy',
+    TX_WAIT_FOR: 'transactions.waitFor',
+    TX_ERA_PERIOD: 'transactions.eraPeriod',
+    TX_TIMEOUT_MS: 'transactions.timeoutMs',
+    TX_MAX_ATTEMPTS: 'transactions.maxAttempts',
+    WEIGHT_DIFF_THRESHOLD: 'weightDiff.threshold',
+    WEIGHT_DIFF_MAX_SKIP_BLOCKS: 'weightDiff.maxSkipBlocks',
+    WEIGHTS_SIGNER_KEY: 'payloadSignature.signerKey',
+    WEIGHTS_SIGNATURE_POLICY: 'payloadSignature.policy',
+    WEIGHTS_MAX_AGE_MS: 'payloadSignature.maxAgeMs',
+    WEIGHT_SOURCES: 'weightSources.sources',
+    WEIGHT_CONSENSUS: 'weightSources.consensus',
+    WEIGHT_SOURCE_QUORUM: 'weightSources.quorum',
+    WEIGHT_SNAPSHOTS: 'snapshots.enabled',
+    WEIGHT_SNAPSHOT_RETENTION_DAYS: 'snapshots.retentionDays',
+    AUDIT_TRAIL_ENABLED: 'auditTrail.enabled',
+    AUDIT_TRAIL_FILE: 'auditTrail.file',
+    AUDIT_TRAIL_RETENTION_DAYS: 'auditTrail.retentionDays',
+    ALERT_WEBHOOKS: 'alerts.webhooks',
+    ALERT_DEDUP_WINDOW_MS: 'alerts.dedupWindowMs',
+    ALERT_MAX_PER_HOUR: 'alerts.maxPerHour',
+    ALERT_WS_STORM_THRESHOLD: 'alerts.wsStormThreshold',
+    ALERT_WS_STORM_WINDOW_MS: 'alerts.wsStormWindowMs',
+    SIMULATION_SCENARIO: 'simulation.scenario',
+    METRICS_PORT: 'metrics.port',
+    METRICS_HOST: 'metrics.host',
+    CONTROL_PORT: 'control.port',
+    CONTROL_SOCKET: 'control.socket',
+    CONTROL_TOKEN_FILE: 'control.tokenFile',
+    ETH_RPC_URL: 'eth.rpcUrl',
+    NETWORK: 'eth.network',
+    WALLET_NAME: 'wallet.name',
+    WALLET_HOTKEY: 'wallet.hotkey',
+    WALLET_PATH: 'wallet.path',
+    VALIDATOR_KEYSTORE: 'wallet.keystore',
+    VALIDATOR_KEYSTORE_PASSWORD_FILE: 'wallet.passwordFile',
+    VALIDATOR_HOTKEY_URI: 'keys.validatorHotkeyUri',
+    MINER_HOTKEY: 'keys.minerHotkey',
+    ETH_KEY: 'keys.ethKey',
+    ETH_PRIVKEY: 'keys.ethPrivkey',
+    HOLDER_COLDKEY: 'keys.holderColdkey',
+};
+
+// Never printed; webhook URLs embed their access token
+const SECRET_KEYS = ['keys.validatorHotkeyUri', 'keys.minerHotkey', 'keys.ethKey', 'keys.ethPrivkey', 'keys.holderColdkey', 'alerts.webhooks'];
+
+export interface LoadOptions {
+    argv?: string[];
+    env?: NodeJS.ProcessEnv;
+    // explicit config file; otherwise taken from --config, SN77_CONFIG or the default locations
+    file?: string;
+}
+
+export interface LoadedConfig {
+    config: Config;
+    // config file that was read, if any
+    file: string | null;
+    // where each explicitly set key came from: `file`, `env <NAME>` or `--set`
+    sources: Record<string, string>;
+}
+
+interface CliArgs {
+    configFile: string | null;
+    overrides: [string, string][];
+}
+
+// btcli-style flags, shorthand for --set <path>=<value>
+const CLI_FLAGS: Record<string, string> = {
+    '--wallet.name': 'wallet.name',
+    '--wallet.hotkey': 'wallet.hotkey',
+    '--wallet.path': 'wallet.path',
+};
+
+// Only --config, --set and CLI_FLAGS are consumed; other arguments belong to the caller
+const parseCliArgs = (argv: string[]): Result<CliArgs> => {
+    const args: CliArgs = { configFile: null, overrides: [] };
+    for (let i = 0; i < argv.length; i++) {
+        const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+        if (flag !== '--config' && flag !== '--set' && !CLI_FLAGS[flag]) continue;
+        const value = inline ?? argv[++i];
+        if (value === undefined) return [args, new Error(`${flag} requires a value`)];
+        if (flag === '--config') {
+            args.configFile = value;
+            continue;
+        }
+        if (CLI_FLAGS[flag]) {
+            args.overrides.push([CLI_FLAGS[flag], value]);
+            continue;
+        }
+        const eq = value.indexOf('=');
+        if (eq <= 0) return [args, new Error(`Invalid --set "${value}", expected <path>=<value>`)];
+        args.overrides.push([value.slice(0, eq).trim(), value.slice(eq + 1)]);
+    }
+    return [args, null];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const setPath = (target: Record<string, unknown>, keyPath: string, value: unknown): void => {
+    const parts = keyPath.split('.');
+    let node = target;
+    for (const part of parts.slice(0, -1)) {
+        if (!isPlainObject(node[part])) node[part] = {};
+        node = node[part] as Record<string, unknown>;
+    }
+    node[parts[parts.length - 1]] = value;
+};
+
+// Record the source of every leaf value of a config file
+const collectSources = (value: unknown, prefix: string, label: string, sources: Record<string, string>): void => {
+    if (!isPlainObject(value)) {
+        sources[prefix] = label;
+        return;
+    }
+    for (const [key, child] of Object.entries(value)) collectSources(child, prefix ? `${prefix}.${key}` : key, label, sources);
+};
+
+const readConfigFile = (file: string): Result<Record<string, unknown>> => {
+    let text: string;
+    try {
+        text = fs.readFileSync(file, 'utf8');
+    } catch (err) {
+        return [{}, new Error(`Cannot read config file ${file}: ${err instanceof Error ? err.message : String(err)}`)];
+    }
+    try {
+        const parsed = file.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+        if (parsed == null) return [{}, null];
+        if (!isPlainObject(parsed)) return [{}, new Error(`Config file ${file} must contain an object`)];
+        return [parsed, null];
+    } catch (err) {
+        return [{}, new Error(`Cannot parse config file ${file}: ${err instanceof Error ? err.message : String(err)}`)];
+    }
+};
+
+const formatIssues = (error: z.ZodError, sources: Record<string, string>): string => {
+    const from = (key: string): string => {
+        const source = sources[key] ?? Object.entries(sources).find(([k]) => k.startsWith(`${key}.`))?.[1];
+        return source ? ` (from ${source})` : '';
+    };
+    return error.issues.map(issue => {
+        const key = issue.path.join('.') || '(root)';
+        if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+            const keys = issue.keys.map(k => (issue.path.length ? `${key}.${k}` : k));
+            return `  - unknown key${keys.length > 1 ? 's' : ''} ${keys.join(', ')}${from(keys[0])}`;
+        }
+        return `  - ${key}: ${issue.message}${from(key)}`;
+    }).join('\n');
+};
+
+/**
+ * Load, merge and validate the configuration. Does not read `.env`; callers
+ * load it into the environment first (see getConfig).
+ */
+export function loadConfig(options: LoadOptions = {}): Result<LoadedConfig | null> {
+    const env = options.env ?? process.env;
+    const [cli, cliErr] = parseCliArgs(options.argv ?? process.argv.slice(2));
+    if (cliErr) return [null, cliErr];
+
+    const sources: Record<string, string> = {};
+    let raw: Record<string, unknown> = {};
+
+    let file = options.file ?? cli.configFile ?? env.SN77_CONFIG ?? null;
+    if (!file) file = DEFAULT_CONFIG_FILES.map(name => path.join(REPO_DIR, name)).find(candidate => fs.existsSync(candidate)) ?? null;
+    if (file) {
+        file = path.resolve(file);
+        const [fileConfig, fileErr] = readConfigFile(file);
+        if (fileErr) return [null, fileErr];
+        raw = fileConfig;
+        collectSources(raw, '', 'file', sources);
+    }
+
+    // Empty variables count as unset, like the `process.env.X || default` reads they replace
+    for (const [name, keyPath] of Object.entries(ENV_VARS)) {
+        const value = env[name];
+        if (value === undefined || value.trim() === '') continue;
+        setPath(raw, keyPath, value);
+        sources[keyPath] = `env ${name}`;
+    }
+    for (const [keyPath, value] of cli.overrides) {
+        setPath(raw, keyPath, value);
+        sources[keyPath] = '--set';
+    }
+
+    const parsed = configSchema.safeParse(raw);
+    if (!parsed.success) {
+        return [null, new Error(`Invalid configuration${file ? ` (${file})` : ''}:\n${formatIssues(parsed.error, sources)}`)];
+    }
+    return [{ config: parsed.data, file, sources }, null];
+}
+
+/**
+ * Copy of the config with secrets replaced, safe to log.
+ */
+export const redactConfig = (config: Config): Config => {
+    const copy = JSON.parse(JSON.stringify(config)) as Config;
+    for (const keyPath of SECRET_KEYS) {
+        const parts = keyPath.split('.');
+        const parent = parts.slice(0, -1).reduce<Record<string, unknown>>((node, part) => node[part] as Record<string, unknown>, copy as unknown as Record<string, unknown>);
+        const key = parts[parts.length - 1];
+        if (parent[key]) parent[key] = '<redacted>';
+    }
+    return copy;
+};
+
+/**
+ * Key paths (e.g. `validator.emaAlpha`) whose values differ between two configs.
+ */
+export const diffConfig = (before: Config, after: Config): string[] => {
+    const flatten = (config: Config): Record<string, string> => {
+        const sources: Record<string, string> = {};
+        collectSources(config, '', '', sources);
+        const values: Record<string, string> = {};
+        for (const keyPath of Object.keys(sources)) {
+            values[keyPath] = JSON.stringify(keyPath.split('.').reduce<any>((node, part) => node?.[part], config));
+        }
+        return values;
+    };
+    const a = flatten(before);
+    const b = flatten(after);
+    return [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(keyPath => a[keyPath] !== b[keyPath]).sort();
+};
+
+// Effective config as YAML with secrets redacted
+export const formatConfig = (config: Config): string => YAML.stringify(redactConfig(config));
+
+let current: Config | null = null;
+
+/**
+ * Process-wide config for the scripts and shared utils: loads `.env`, then the
+ * layers above on first use. Throws on an invalid configuration.
+ */
+export const getConfig = (): Config => {
+    if (current) return current;
+    dotenv.config();
+    const [loaded, err] = loadConfig();
+    if (err || !loaded) throw err ?? new Error('Failed to load configuration');
+    current = loaded.config;
+    return current;
+};
+
+// Make a config loaded by the caller (e.g. the validator) visible to getConfig()
+export const setConfig = (config: Config): void => {
+    current = config;
+};
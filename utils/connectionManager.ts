@@ -0,0 +1,262 @@
+import { ApiPromise, WsProvider } from '@polkadot/api';
+import { getConfig } from './config';
+import { getLogger } from './logger';
+
+/**
+ * Subtensor connection manager shared by the validator and the scripts.
+ *
+ * Takes an ordered list of endpoints, probes them by block height and latency,
+ * connects to the best one and fails over to the next healthy endpoint when the
+ * connection drops or the node falls behind.
+ */
+
+const log = getLogger('connection');
+
+export type NetworkName = 'finney' | 'testnet' | 'localnet';
+
+export const NETWORK_PRESETS: Record<NetworkName, string[]> = {
+    finney: ['wss://entrypoint-finney.opentensor.ai:443', 'wss://lite.chain.opentensor.ai:443'],
+    testnet: ['wss://test.finney.opentensor.ai:443'],
+    localnet: ['ws://127.0.0.1:9944'],
+};
+
+export interface EndpointHealth {
+    url: string;
+    ok: boolean;
+    blockNumber: number;
+    latencyMs: number;
+    error?: string;
+}
+
+export interface ConnectionManagerOptions {
+    endpoints: string[];
+    probeTimeoutMs?: number;
+    connectTimeoutMs?: number;
+    // an endpoint this many blocks behind the best one is considered unhealthy
+    maxLagBlocks?: number;
+}
+
+export interface ConnectionManager {
+    getApi: () => Promise<ApiPromise>;
+    current: () => ApiPromise | null;
+    currentEndpoint: () => string | null;
+    onConnected: (cb: (api: ApiPromise, url: string, isReconnect: boolean) => void) => void;
+    onDisconnected: (cb: (url: string) => void) => void;
+    checkHealth: () => Promise<EndpointHealth[]>;
+    startHealthChecks: (intervalMs: number) => void;
+    close: () => Promise<void>;
+}
+
+const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_LAG_BLOCKS = 5;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+};
+
+/**
+ * Resolve the endpoint list: `subtensor.wsUrl` (`BITTENSOR_WS_URL`, comma
+ * separated) wins over the `subtensor.network` preset, which defaults to finney.
+ */
+export const resolveEndpoints = (network?: string, override?: string): string[] => {
+    const explicit = (override || '').split(',').map(u => u.trim()).filter(Boolean);
+    if (explicit.length) return explicit;
+    const name = (network || 'finney').toLowerCase() as NetworkName;
+    const preset = NETWORK_PRESETS[name];
+    if (!preset) throw new Error(`Unknown network "${network}", expected one of ${Object.keys(NETWORK_PRESETS).join(', ')}`);
+    return preset;
+};
+
+export const probeEndpoint = async (url: string, timeoutMs = DEFAULT_PROBE_TIMEOUT_MS): Promise<EndpointHealth> => {
+    const provider = new WsProvider(url, false);
+    try {
+        await provider.connect();
+        await withTimeout(provider.isReady, timeoutMs, `connect to ${url}`);
+        const start = Date.now();
+        const header = await withTimeout(provider.send<{ number: string }>('chain_getHeader', []), timeoutMs, `chain_getHeader on ${url}`);
+        return { url, ok: true, blockNumber: parseInt(header.number, 16), latencyMs: Date.now() - start };
+    } catch (err) {
+        return { url, ok: false, blockNumber: 0, latencyMs: Infinity, error: err instanceof Error ? err.message : String(err) };
+    } finally {
+        provider.disconnect().catch(() => {});
+    }
+};
+
+/**
+ * Order endpoints for connection: healthy endpoints within `maxLagBlocks` of the
+ * best block first (by latency, then configured order), then the lagging ones.
+ */
+export const rankEndpoints = (results: EndpointHealth[], maxLagBlocks = DEFAULT_MAX_LAG_BLOCKS): EndpointHealth[] => {
+    const healthy = results.filter(r => r.ok);
+    const best = Math.max(0, ...healthy.map(r => r.blockNumber));
+    const inSync = healthy.filter(r => best - r.blockNumber <= maxLagBlocks).sort((a, b) => a.latencyMs - b.latencyMs);
+    const lagging = healthy.filter(r => best - r.blockNumber > maxLagBlocks).sort((a, b) => b.blockNumber - a.blockNumber);
+    return [...inSync, ...lagging];
+};
+
+export const createConnectionManager = (options: ConnectionManagerOptions): ConnectionManager => {
+    if (!options.endpoints.length) throw new Error('At least one subtensor endpoint is required');
+    const probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+    const connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+    const maxLagBlocks = options.maxLagBlocks ?? DEFAULT_MAX_LAG_BLOCKS;
+
+    let api: ApiPromise | null = null;
+    let endpoint: string | null = null;
+    let connecting: Promise<ApiPromise> | null = null;
+    let closed = false;
+    let hasConnected = false;
+    let healthTimer: ReturnType<typeof setInterval> | null = null;
+    const connectedListeners: Array<(api: ApiPromise, url: string, isReconnect: boolean) => void> = [];
+    const disconnectedListeners: Array<(url: string) => void> = [];
+
+    const probeAll = (): Promise<EndpointHealth[]> => Promise.all(options.endpoints.map(url => probeEndpoint(url, probeTimeoutMs)));
+
+    const connectTo = async (url: string): Promise<ApiPromise> => {
+        const provider = new WsProvider(url, false);
+        try {
+            await provider.connect();
+            await withTimeout(provider.isReady, connectTimeoutMs, `connect to ${url}`);
+            const newApi = await withTimeout(ApiPromise.create({ provider }), connectTimeoutMs, `API init on ${url}`);
+            provider.on('disconnected', () => {
+                // Ignore stale providers that were replaced by a failover
+                if (api !== newApi || closed) return;
+                api = null;
+                log.warn(`Subtensor WS disconnected from ${url}`);
+                disconnectedListeners.forEach(cb => cb(url));
+                void reconnect();
+            });
+            return newApi;
+        } catch (err) {
+            provider.disconnect().catch(() => {});
+            throw err;
+        }
+    };
+
+    // Probe all endpoints and connect to the best one; throws if none is reachable
+    const connectBest = async (): Promise<ApiPromise> => {
+        const ranked = rankEndpoints(await probeAll(), maxLagBlocks);
+        // Fall back to the configured order when every probe failed
+        const candidates = ranked.length ? ranked.map(r => r.url) : options.endpoints;
+        let lastError: Error | null = null;
+        for (const url of candidates) {
+            try {
+                const newApi = await connectTo(url);
+                const isReconnect = hasConnected;
+                const previous = api;
+                api = newApi;
+                endpoint = url;
+                hasConnected = true;
+                if (previous && previous !== newApi) previous.disconnect().catch(() => {});
+                log.info(`Connected to subtensor endpoint ${url}`);
+                connectedListeners.forEach(cb => cb(newApi, url, isReconnect));
+                return newApi;
+            } catch (err) {
+                lastError = err instanceof Error ? err : new Error(String(err));
+                log.warn(`Failed to connect to ${url}:`, lastError.message);
+            }
+        }
+        throw lastError ?? new Error('No subtensor endpoint reachable');
+    };
+
+    const reconnect = async (): Promise<void> => {
+        if (connecting || closed) return;
+        let delayMs = 1000;
+        connecting = (async () => {
+            while (!closed) {
+                try {
+                    return await connectBest();
+                } catch (err) {
+                    log.error('Subtensor reconnection attempt failed:', err);
+                    await sleep(delayMs);
+                    delayMs = Math.min(delayMs * 2, MAX_RECONNECT_DELAY_MS);
+                }
+            }
+            throw new Error('Connection manager closed');
+        })();
+        try {
+            await connecting;
+        } catch {
+            // closed while reconnecting
+        } finally {
+            connecting = null;
+        }
+    };
+
+    const getApi = async (): Promise<ApiPromise> => {
+        if (closed) closed = false; // allow reuse after close()
+        if (api && api.isConnected) return api;
+        if (connecting) return connecting;
+        connecting = connectBest();
+        try {
+            return await connecting;
+        } finally {
+            connecting = null;
+        }
+    };
+
+    const checkHealth = async (): Promise<EndpointHealth[]> => {
+        const results = await probeAll();
+        if (!api || !endpoint || connecting || closed) return results;
+
+        const ranked = rankEndpoints(results, maxLagBlocks);
+        const currentHealthy = ranked.find(r => r.url === endpoint);
+        const best = ranked[0];
+        const bestBlock = best?.blockNumber ?? 0;
+        if (best && (!currentHealthy || bestBlock - currentHealthy.blockNumber > maxLagBlocks)) {
+            const reason = currentHealthy ? `${bestBlock - currentHealthy.blockNumber} blocks behind` : 'unreachable';
+            log.warn(`Subtensor endpoint ${endpoint} is ${reason}, failing over to ${best.url}`);
+            try {
+                connecting = connectBest();
+                await connecting;
+            } catch (err) {
+                log.error('Failover failed, keeping current connection:', err);
+            } finally {
+                connecting = null;
+            }
+        }
+        return results;
+    };
+
+    return {
+        getApi,
+        current: () => api,
+        currentEndpoint: () => endpoint,
+        onConnected: cb => { connectedListeners.push(cb); },
+        onDisconnected: cb => { disconnectedListeners.push(cb); },
+        checkHealth,
+        startHealthChecks: (intervalMs: number) => {
+            if (healthTimer) clearInterval(healthTimer);
+            healthTimer = setInterval(() => {
+                checkHealth().catch(err => log.error('Subtensor health check failed:', err));
+            }, intervalMs);
+        },
+        close: async () => {
+            closed = true;
+            if (healthTimer) clearInterval(healthTimer);
+            healthTimer = null;
+            const current = api;
+            api = null;
+            endpoint = null;
+            if (current) await current.disconnect();
+        },
+    };
+};
+
+let defaultManager: ConnectionManager | null = null;
+
+// Process-wide manager built from the subtensor config section
+export const getDefaultConnectionManager = (): ConnectionManager => {
+    if (!defaultManager) {
+        const { network, wsUrl } = getConfig().subtensor;
+        defaultManager = createConnectionManager({ endpoints: resolveEndpoints(network, wsUrl) });
+    }
+    return defaultManager;
+};
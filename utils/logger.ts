@@ -0,0 +1,154 @@
+import path from 'path';
+import winston from 'winston';
+import DailyRotateFile from 'winston-daily-rotate-file';
+
+/**
+ * Structured logging shared by the validator and the scripts.
+ *
+ * One root winston logger with per-component child loggers, JSON or pretty
+ * output, and size- and time-based file rotation with retention. Call sites keep
+ * the console-style signature (`log.error('Failed to x:', err)`).
+ */
+
+export type LogFormat = 'json' | 'pretty';
+
+// all: every level, notify: errors and notify() messages only, off: no console output
+export type ConsoleMode = 'all' | 'notify' | 'off';
+
+export interface LoggerOptions {
+    // base name of the log files (`<name>-YYYY-MM-DD.log`); no file output when unset
+    name?: string;
+    dir?: string;
+    level?: string;
+    format?: LogFormat;
+    console?: ConsoleMode;
+    maxSize?: string;
+    maxFiles?: string;
+}
+
+export interface Logger {
+    debug: (...args: unknown[]) => void;
+    info: (...args: unknown[]) => void;
+    warn: (...args: unknown[]) => void;
+    error: (...args: unknown[]) => void;
+    // user-facing progress messages, shown on the console even when console logging is off
+    notify: (...args: unknown[]) => void;
+    child: (component: string) => Logger;
+}
+
+const formatArg = (arg: unknown): string => {
+    if (typeof arg === 'string') return arg;
+    if (arg instanceof Error) return arg.stack || `${arg.name}: ${arg.message}`;
+    try { return JSON.stringify(arg); } catch { return String(arg); }
+};
+
+const pretty = winston.format.printf(info => {
+    const component = info.component ? ` [${info.component}]` : '';
+    return `[${info.timestamp}] ${info.level.toUpperCase()}${component}: ${info.message}`;
+});
+
+const outputFormat = (format: LogFormat) => winston.format.combine(
+    winston.format.timestamp(),
+    format === 'json' ? winston.format.json() : pretty,
+);
+
+const consoleFilter = (mode: ConsoleMode) => winston.format(info => {
+    if (mode === 'all') return info;
+    if (mode === 'notify' && (info.level === 'error' || info.notify)) return info;
+    return false;
+})();
+
+const levelFilter = (errorsOnly: boolean) => winston.format(info => (info.level === 'error') === errorsOnly ? info : false)();
+
+const root = winston.createLogger({ level: process.env.LOG_LEVEL || 'info' });
+
+// Resolve options from the environment; explicit options win
+const resolveOptions = (options: LoggerOptions): Required<Omit<LoggerOptions, 'name'>> & { name?: string } => ({
+    name: options.name,
+    dir: options.dir ?? process.env.LOG_DIR ?? path.join(__dirname, '..', 'logs'),
+    level: options.level ?? process.env.LOG_LEVEL ?? 'info',
+    format: options.format ?? ((process.env.LOG_FORMAT || 'pretty').toLowerCase() as LogFormat),
+    console: options.console ?? 'all',
+    maxSize: options.maxSize ?? process.env.LOG_MAX_SIZE ?? '20m',
+    maxFiles: options.maxFiles ?? process.env.LOG_MAX_FILES ?? '14d',
+});
+
+let configured = false;
+
+/**
+ * (Re)configure the root logger. Child loggers created earlier keep working
+ * because they write through the root transports.
+ */
+export const initLogger = (options: LoggerOptions = {}): void => {
+    const opts = resolveOptions(options);
+    if (!['json', 'pretty'].includes(opts.format)) throw new Error(`Invalid LOG_FORMAT "${opts.format}", expected json or pretty`);
+
+    root.clear();
+    root.level = opts.level;
+    if (opts.console !== 'off') {
+        // Write to the process streams directly so captureConsole() can never loop back
+        root.add(new winston.transports.Stream({
+            stream: process.stdout,
+            format: winston.format.combine(consoleFilter(opts.console), levelFilter(false), outputFormat('pretty')),
+        }));
+        root.add(new winston.transports.Stream({
+            stream: process.stderr,
+            format: winston.format.combine(consoleFilter(opts.console), levelFilter(true), outputFormat('pretty')),
+        }));
+    }
+    if (opts.name) {
+        root.add(new DailyRotateFile({
+            dirname: opts.dir,
+            filename: `${opts.name}-%DATE%.log`,
+            datePattern: 'YYYY-MM-DD',
+            maxSize: opts.maxSize,
+            maxFiles: opts.maxFiles,
+            format: outputFormat(opts.format),
+        }));
+    }
+    configured = true;
+};
+
+const wrap = (target: winston.Logger): Logger => {
+    const write = (level: string, args: unknown[], meta: Record<string, unknown> = {}) => {
+        if (!configured) initLogger(); // scripts that never call initLogger get console output
+        target.log({ level, message: args.map(formatArg).join(' '), ...meta });
+    };
+    return {
+        debug: (...args) => write('debug', args),
+        info: (...args) => write('info', args),
+        warn: (...args) => write('warn', args),
+        error: (...args) => write('error', args),
+        notify: (...args) => write('info', args, { notify: true }),
+        child: component => wrap(target.child({ component })),
+    };
+};
+
+export const getLogger = (component: string): Logger => wrap(root.child({ component }));
+
+// Change the level of every transport, e.g. after a config reload
+export const setLogLevel = (level: string): void => {
+    root.level = level;
+};
+
+/**
+ * Route `console.*` calls (including ones made by dependencies) into the logger.
+ */
+export const captureConsole = (logger: Logger): void => {
+    console.log = (...args: unknown[]) => logger.info(...args);
+    console.info = (...args: unknown[]) => logger.info(...args);
+    console.warn = (...args: unknown[]) => logger.warn(...args);
+    console.error = (...args: unknown[]) => logger.error(...args);
+    console.debug = (...args: unknown[]) => logger.debug(...args);
+};
+
+// Resolve once every transport has written out its buffered entries
+export const flushLogger = (): Promise<void> => new Promise(resolve => {
+    if (!configured) return resolve();
+    const timeoutId = setTimeout(resolve, 5000); // never block shutdown on a stuck transport
+    root.on('finish', () => {
+        clearTimeout(timeoutId);
+        resolve();
+    });
+    root.end();
+});
@@ -1,5 +1,9 @@
 import { ethers } from 'ethers';
 import { Pool } from './poolUtils';
+import { getConfig } from './config';
+import { getLogger } from './logger';
+
+const log = getLogger('pool-search');
 
 const UNISWAP_V3_FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
 const UNISWAP_V3_FACTORY_ABI = [
@@ -43,7 +47,7 @@ async function getTokenSymbol(provider: ethers.Provider, address: string): Promi
     tokenSymbolCache.set(address, symbol);
     return symbol;
   } catch (error) {
-    console.warn(`Failed to get symbol for token ${address}:`, error);
+    log.warn(`Failed to get symbol for token ${address}:`, error);
     return 'UNKNOWN';
   }
 }
@@ -78,7 +82,7 @@ async function fetchPoolInfo(provider: ethers.Provider, poolAddress: string): Pr
 
 export const searchPools = async (query: string): Promise<[Pool[], string | null]> => {
   try {
-    const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC_URL || 'https://eth.llamarpc.com');
+    const provider = new ethers.JsonRpcProvider(getConfig().eth.rpcUrl);
     const factory = new ethers.Contract(UNISWAP_V3_FACTORY, UNISWAP_V3_FACTORY_ABI, provider);
     
     const pools: Pool[] = [];
@@ -122,7 +126,7 @@ export const searchPools = async (query: string): Promise<[Pool[], string | null
 
 export const getPoolInfo = async (poolAddress: string): Promise<[Pool | null, string | null]> => {
   try {
-    const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC_URL || 'https://eth.llamarpc.com');
+    const provider = new ethers.JsonRpcProvider(getConfig().eth.rpcUrl);
     return await fetchPoolInfo(provider, poolAddress);
   } catch (error) {
     return [null, `Failed to get pool info: ${error}`];
@@ -0,0 +1,191 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import type { Keyring } from '@polkadot/keyring';
+import type { KeyringPair, KeyringPair$Json } from '@polkadot/keyring/types';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+
+/**
+ * Validator key loading.
+ *
+ * The signing key comes from exactly one of:
+ * - a Bittensor wallet: `<path>/<name>/hotkeys/<hotkey>`, the unencrypted JSON
+ *   keyfile btcli writes for hotkeys (secretPhrase or secretSeed)
+ * - a polkadot-js encrypted JSON keystore, unlocked with the first line of a
+ *   password file or a password typed at the terminal
+ * - a raw secret URI, mnemonic or seed (VALIDATOR_HOTKEY_URI)
+ */
+
+type Result<T> = [T, Error | null];
+
+export interface KeySource {
+  // Bittensor wallet name; selects the wallet layout when set
+  walletName: string;
+  walletHotkey: string;
+  walletPath: string;
+  // polkadot-js keystore file
+  keystore: string;
+  passwordFile: string;
+  uri: string;
+}
+
+export interface LoadedKey {
+  pair: KeyringPair;
+  // where the key came from, safe to log
+  description: string;
+}
+
+// Encrypted Bittensor keyfiles start with one of these markers
+const ENCRYPTED_KEYFILE_PREFIXES = ['$NACL', '$ANSIBLE_VAULT'];
+
+interface BittensorKeyfile {
+  secretPhrase?: string | null;
+  secretSeed?: string | null;
+  ss58Address?: string | null;
+}
+
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)));
+
+export const expandHome = (file: string): string =>
+    file === '~' || file.startsWith('~/') ? path.join(os.homedir(), file.slice(1)) : file;
+
+export const bittensorHotkeyPath = (walletPath: string, name: string, hotkey: string): string =>
+    path.join(path.resolve(expandHome(walletPath)), name, 'hotkeys', hotkey);
+
+/**
+ * Load a hotkey from a Bittensor wallet keyfile. The derived address must match
+ * the `ss58Address` recorded in the file.
+ */
+export async function loadBittensorHotkey(keyring: Keyring, file: string): Promise<Result<KeyringPair | null>> {
+    let text: string;
+    try {
+        text = (await fs.readFile(file, 'utf8')).trim();
+    } catch (err) {
+        return [null, new Error(`Cannot read hotkey file ${file}: ${toError(err).message}`)];
+    }
+    if (ENCRYPTED_KEYFILE_PREFIXES.some(prefix => text.startsWith(prefix))) {
+        return [null, new Error(`Hotkey file ${file} is encrypted; regenerate the hotkey without a password or export it as a polkadot-js keystore`)];
+    }
+
+    let keyfile: BittensorKeyfile;
+    try {
+        keyfile = JSON.parse(text) as BittensorKeyfile;
+    } catch (err) {
+        return [null, new Error(`Hotkey file ${file} is not a Bittensor keyfile: ${toError(err).message}`)];
+    }
+    const secret = keyfile.secretPhrase || keyfile.secretSeed;
+    if (!secret) return [null, new Error(`Hotkey file ${file} has neither a secretPhrase nor a secretSeed`)];
+
+    let pair: KeyringPair;
+    try {
+        pair = keyring.addFromUri(secret);
+    } catch (err) {
+        return [null, new Error(`Invalid secret in hotkey file ${file}: ${toError(err).message}`)];
+    }
+    if (keyfile.ss58Address && keyfile.ss58Address !== pair.address) {
+        keyring.removePair(pair.address);
+        return [null, new Error(`Hotkey file ${file} derives ${pair.address}, but records ${keyfile.ss58Address}`)];
+    }
+    return [pair, null];
+}
+
+/**
+ * Read a password from the terminal without echoing it. Fails when stdin is not
+ * a TTY (e.g. under the supervisor or a process manager).
+ */
+export const promptPassword = (question: string): Promise<Result<string>> => {
+    if (!process.stdin.isTTY) {
+        return Promise.resolve(['', new Error('No password file configured and stdin is not a terminal')]);
+    }
+    return new Promise(resolve => {
+        const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+        let muted = false;
+        // readline echoes every keystroke through _writeToOutput
+        const internal = rl as unknown as { _writeToOutput: (text: string) => void };
+        const write = internal._writeToOutput.bind(rl);
+        internal._writeToOutput = (text: string) => {
+            if (!muted) write(text);
+        };
+        rl.question(question, answer => {
+            rl.close();
+            process.stdout.write('\n');
+            resolve([answer, null]);
+        });
+        muted = true;
+    });
+};
+
+export async function readPassword(passwordFile: string, prompt: string): Promise<Result<string>> {
+    if (!passwordFile) return promptPassword(prompt);
+    try {
+        // First line only, so a trailing newline is not part of the password
+        return [(await fs.readFile(expandHome(passwordFile), 'utf8')).split(/\r?\n/)[0], null];
+    } catch (err) {
+        return ['', new Error(`Cannot read password file ${passwordFile}: ${toError(err).message}`)];
+    }
+}
+
+/**
+ * Load and unlock a polkadot-js encrypted JSON keystore.
+ */
+export async function loadKeystore(keyring: Keyring, file: string, passwordFile: string): Promise<Result<KeyringPair | null>> {
+    let json: KeyringPair$Json;
+    try {
+        json = JSON.parse(await fs.readFile(expandHome(file), 'utf8')) as KeyringPair$Json;
+    } catch (err) {
+        return [null, new Error(`Cannot read keystore ${file}: ${toError(err).message}`)];
+    }
+
+    let pair: KeyringPair;
+    try {
+        pair = keyring.addFromJson(json);
+    } catch (err) {
+        return [null, new Error(`Invalid keystore ${file}: ${toError(err).message}`)];
+    }
+    if (!pair.isLocked) return [pair, null];
+
+    const [password, passwordErr] = await readPassword(passwordFile, `Password for ${pair.address}: `);
+    if (passwordErr) return [null, passwordErr];
+    try {
+        pair.unlock(password);
+    } catch (err) {
+        keyring.removePair(pair.address);
+        return [null, new Error(`Cannot unlock keystore ${file}: ${toError(err).message}`)];
+    }
+    return [pair, null];
+}
+
+/**
+ * Load the signing key from the single configured source.
+ */
+export async function loadSigningKey(keyring: Keyring, source: KeySource): Promise<Result<LoadedKey | null>> {
+    const configured = [
+        source.walletName && 'wallet.name (WALLET_NAME)',
+        source.keystore && 'wallet.keystore (VALIDATOR_KEYSTORE)',
+        source.uri && 'keys.validatorHotkeyUri (VALIDATOR_HOTKEY_URI)',
+    ].filter(Boolean);
+    if (configured.length === 0) {
+        return [null, new Error('No validator key configured: set wallet.name (WALLET_NAME), wallet.keystore (VALIDATOR_KEYSTORE) or keys.validatorHotkeyUri (VALIDATOR_HOTKEY_URI)')];
+    }
+    if (configured.length > 1) return [null, new Error(`Configure only one validator key source, found ${configured.join(', ')}`)];
+    // sr25519 pairs need the wasm crypto, which may not be initialized before the first API connection
+    await cryptoWaitReady();
+
+    if (source.walletName) {
+        const file = bittensorHotkeyPath(source.walletPath, source.walletName, source.walletHotkey);
+        const [pair, err] = await loadBittensorHotkey(keyring, file);
+        if (err || !pair) return [null, err ?? new Error(`Failed to load hotkey ${file}`)];
+        return [{ pair, description: `wallet ${source.walletName}/${source.walletHotkey} (${file})` }, null];
+    }
+    if (source.keystore) {
+        const [pair, err] = await loadKeystore(keyring, source.keystore, source.passwordFile);
+        if (err || !pair) return [null, err ?? new Error(`Failed to load keystore ${source.keystore}`)];
+        return [{ pair, description: `keystore ${source.keystore}` }, null];
+    }
+    try {
+        return [{ pair: keyring.addFromUri(source.uri), description: 'VALIDATOR_HOTKEY_URI' }, null];
+    } catch (err) {
+        return [null, new Error(`Invalid VALIDATOR_HOTKEY_URI format: ${toError(err).message}`)];
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * Alerting webhooks for the sn77 validator
+ *
+ * Sends incident events (weight set failures, version timeout countdown, WS
+ * disconnect storms, deregistration, shutdown) to HTTP webhooks as generic JSON,
+ * Slack-style or Discord-style payloads. Repeated events are deduplicated and
+ * the total rate is capped so a flapping connection cannot flood a channel.
+ */
+
+import { getLogger } from '../utils/logger';
+import { metrics } from './metrics';
+import type { Result } from './types';
+
+export type AlertFormat = 'json' | 'slack' | 'discord';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertEvent =
+  | 'weight_set_failed'
+  | 'version_incompatible'
+  | 'version_timeout'
+  | 'ws_disconnect_storm'
+  | 'deregistered'
+  | 'weights_quarantined'
+  | 'weights_paused'
+  | 'weights_resumed'
+  | 'shutdown';
+
+export interface Alert {
+  event: AlertEvent;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  details?: Record<string, string | number | boolean | null>;
+  // alerts with the same key are sent once per dedup window (default: event + title)
+  dedupKey?: string;
+  dedupWindowMs?: number;
+}
+
+export interface AlertTarget {
+  url: string;
+  format: AlertFormat;
+}
+
+export interface AlerterOptions {
+  targets: AlertTarget[];
+  // identifies the validator in every payload, e.g. its hotkey
+  source: () => string;
+  dedupWindowMs: number;
+  maxPerHour: number;
+  timeoutMs?: number;
+}
+
+export interface Alerter {
+  // never throws; resolves once every webhook answered or timed out
+  send: (alert: Alert) => Promise<void>;
+}
+
+const log = getLogger('alerts');
+
+const SEVERITY_COLORS: Record<AlertSeverity, number> = { info: 0x3498db, warning: 0xf1c40f, critical: 0xe74c3c };
+
+/**
+ * Parse `ALERT_WEBHOOKS`: comma-separated URLs, each optionally prefixed with
+ * its format (`slack:https://...`, `discord:https://...`); plain URLs get JSON.
+ */
+export const parseAlertTargets = (spec: string): Result<AlertTarget[]> => {
+    const targets: AlertTarget[] = [];
+    for (const entry of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+        const match = /^(?:(json|slack|discord):)?(https?:\/\/\S+)$/.exec(entry);
+        if (!match) return [[], new Error(`Invalid alert webhook "${entry}", expected [json|slack|discord:]<http(s) url>`)];
+        targets.push({ format: (match[1] || 'json') as AlertFormat, url: match[2] });
+    }
+    return [targets, null];
+};
+
+export const formatAlert = (alert: Alert, format: AlertFormat, source: string, timestamp: string): Record<string, unknown> => {
+    const details = Object.entries(alert.details ?? {});
+    const heading = `[${alert.severity.toUpperCase()}] ${alert.title}`;
+    if (format === 'slack') {
+        return {
+            text: `*${heading}*\n${alert.message}`,
+            attachments: [{
+                color: `#${SEVERITY_COLORS[alert.severity].toString(16).padStart(6, '0')}`,
+                fields: details.map(([title, value]) => ({ title, value: String(value), short: true })),
+                footer: `${source} · ${alert.event}`,
+                ts: Math.floor(Date.parse(timestamp) / 1000),
+            }],
+        };
+    }
+    if (format === 'discord') {
+        return {
+            embeds: [{
+                title: heading,
+                description: alert.message,
+                color: SEVERITY_COLORS[alert.severity],
+                fields: details.map(([name, value]) => ({ name, value: String(value), inline: true })),
+                footer: { text: `${source} · ${alert.event}` },
+                timestamp,
+            }],
+        };
+    }
+    return { event: alert.event, severity: alert.severity, title: alert.title, message: alert.message, details: alert.details ?? {}, source, timestamp };
+};
+
+const postJson = async (url: string, body: unknown, timeoutMs: number): Promise<Error | null> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: controller.signal,
+        });
+        if (!response.ok) return new Error(`Webhook responded with status ${response.status}`);
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err : new Error(String(err));
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+export const createAlerter = (options: AlerterOptions): Alerter => {
+    const timeoutMs = options.timeoutMs ?? 5000;
+    const lastSent = new Map<string, number>();
+    const suppressed = new Map<string, number>();
+    // Keys being delivered; a concurrent identical alert counts as a duplicate
+    const inFlight = new Set<string>();
+    let sentTimes: number[] = [];
+
+    const send = async (alert: Alert): Promise<void> => {
+        if (!options.targets.length) return;
+        const now = Date.now();
+
+        const key = alert.dedupKey ?? `${alert.event}:${alert.title}`;
+        const last = lastSent.get(key);
+        if (inFlight.has(key) || (last !== undefined && now - last < (alert.dedupWindowMs ?? options.dedupWindowMs))) {
+            suppressed.set(key, (suppressed.get(key) ?? 0) + 1);
+            metrics.alertsSuppressed.inc({ reason: 'duplicate' });
+            return;
+        }
+
+        // Critical alerts (e.g. shutdown) always go out; the rest share an hourly budget
+        sentTimes = sentTimes.filter(t => now - t < 60 * 60 * 1000);
+        if (alert.severity !== 'critical' && sentTimes.length >= options.maxPerHour) {
+            metrics.alertsSuppressed.inc({ reason: 'rate_limited' });
+            log.warn(`Alert rate limit reached (${options.maxPerHour}/h), dropping: ${alert.title}`);
+            return;
+        }
+
+        const repeats = suppressed.get(key) ?? 0;
+        const payloadAlert = repeats > 0 ? { ...alert, message: `${alert.message}\n(${repeats} similar alerts suppressed)` } : alert;
+
+        const timestamp = new Date(now).toISOString();
+        const source = options.source();
+        inFlight.add(key);
+        const results = await Promise.all(options.targets.map(target =>
+            postJson(target.url, formatAlert(payloadAlert, target.format, source, timestamp), timeoutMs)));
+        inFlight.delete(key);
+        results.forEach((err, i) => {
+            if (!err) return;
+            metrics.alertDeliveryFailures.inc({ format: options.targets[i].format });
+            log.error(`Failed to deliver alert to ${options.targets[i].format} webhook:`, err.message);
+        });
+
+        // Only a delivered alert counts against dedup and the hourly budget; a failed one is sent again next time
+        if (results.every(err => err)) {
+            log.error(`Alert not delivered to any webhook: ${alert.title}`);
+            return;
+        }
+        lastSent.set(key, now);
+        sentTimes.push(now);
+        // Duplicates suppressed during delivery are reported with the next alert
+        const remaining = (suppressed.get(key) ?? 0) - repeats;
+        if (remaining > 0) suppressed.set(key, remaining);
+        else suppressed.delete(key);
+        metrics.alertsSent.inc({ event: alert.event });
+        log.info(`Alert sent: ${alert.title}`);
+    };
+
+    return { send };
+};
+
+/**
+ * Counts events in a sliding window; `record()` returns true once `threshold`
+ * events happened within `windowMs` (used for WS disconnect storms).
+ */
+export const createStormDetector = (threshold: number, windowMs: number) => {
+    let events: number[] = [];
+    return {
+        record: (now = Date.now()): boolean => {
+            events = [...events.filter(t => now - t < windowMs), now];
+            return events.length >= threshold;
+        },
+        count: (): number => events.length,
+    };
+};
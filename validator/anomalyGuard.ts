@@ -0,0 +1,225 @@
+/**
+ * Anomaly guard for the sn77 validator
+ *
+ * Compares every combined weight map with the recent history before it is fed
+ * into the EMA, so a single bad `/weights` response cannot start moving emissions.
+ * The baseline is the mean of the last `historySize` accepted maps (seeded from
+ * the restored EMA after a restart). A map violates the guard when
+ * - its L1 distance to the baseline exceeds `maxL1`
+ * - its KL divergence from the baseline exceeds `maxKl` (0 disables the check)
+ * - a UID newly holds more than `maxShare` of the weight
+ * - more than `maxDisappeared` of the UIDs in the last accepted map are missing
+ * In enforce mode a violating map is quarantined and the EMA keeps the previous
+ * weights. A shift still present after `releaseAfter` consecutive quarantines
+ * is accepted and replaces the history. Every decision is appended to
+ * `<logDir>/anomaly/decisions.jsonl`; quarantined maps are written to
+ * `<logDir>/anomaly/quarantine/<timestamp>.json`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getLogger } from '../utils/logger';
+
+export type AnomalyGuardMode = 'off' | 'report' | 'enforce';
+
+export type AnomalyAction = 'accepted' | 'quarantined' | 'released';
+
+export interface AnomalyGuardOptions {
+  mode: AnomalyGuardMode;
+  maxL1: number;
+  maxKl: number;
+  maxShare: number;
+  maxDisappeared: number;
+  historySize: number;
+  // consecutive quarantines after which the new map is accepted (0 = never)
+  releaseAfter: number;
+  logDir: string;
+}
+
+export interface AnomalyMetrics {
+  l1Distance: number;
+  klDivergence: number;
+  // UID with the largest share of the incoming map
+  topUid: string | null;
+  topShare: number;
+  // UIDs of the last accepted map missing from the incoming one
+  disappeared: string[];
+  disappearedRatio: number;
+}
+
+export interface AnomalyDecision {
+  timestamp: string;
+  mode: AnomalyGuardMode;
+  action: AnomalyAction;
+  violations: string[];
+  // null when there was no history to compare with
+  metrics: AnomalyMetrics | null;
+  consecutiveQuarantines: number;
+}
+
+const log = getLogger('anomaly');
+
+// Smoothing for UIDs missing from one side of the KL divergence
+const KL_EPSILON = 1e-6;
+// Disappearance is only judged against maps with at least this many UIDs
+const MIN_DISAPPEARANCE_BASE = 5;
+// Seeded EMA entries below this share are decayed leftovers, not active miners
+const SEED_MIN_SHARE = 1e-4;
+
+const normalizeMap = (weights: Record<string, number>): Record<string, number> => {
+    const total = Object.values(weights).reduce((sum, w) => sum + (isFinite(w) && w > 0 ? w : 0), 0);
+    const out: Record<string, number> = {};
+    if (total <= 0) return out;
+    for (const [key, w] of Object.entries(weights)) {
+        if (isFinite(w) && w > 0) out[key] = w / total;
+    }
+    return out;
+};
+
+// Per-UID mean of the history, UIDs missing from a map counting as 0
+const meanMap = (maps: Record<string, number>[]): Record<string, number> => {
+    const sum: Record<string, number> = {};
+    for (const map of maps) {
+        for (const [uid, w] of Object.entries(map)) sum[uid] = (sum[uid] ?? 0) + w;
+    }
+    return normalizeMap(sum);
+};
+
+/**
+ * Measure how far the normalized `incoming` map is from the normalized
+ * `baseline`; `previous` is the last accepted map, used for disappearances.
+ */
+export const measureAnomaly = (incoming: Record<string, number>, baseline: Record<string, number>, previous: Record<string, number>): AnomalyMetrics => {
+    const uids = new Set([...Object.keys(incoming), ...Object.keys(baseline)]);
+    let l1Distance = 0;
+    let klDivergence = 0;
+    for (const uid of uids) {
+        const p = incoming[uid] ?? 0;
+        const q = baseline[uid] ?? 0;
+        l1Distance += Math.abs(p - q);
+        if (p > 0) klDivergence += p * Math.log((p + KL_EPSILON) / (q + KL_EPSILON));
+    }
+
+    let topUid: string | null = null;
+    let topShare = 0;
+    for (const [uid, w] of Object.entries(incoming)) {
+        if (w > topShare) {
+            topUid = uid;
+            topShare = w;
+        }
+    }
+
+    const previousUids = Object.keys(previous);
+    const disappeared = previousUids.filter(uid => !(incoming[uid] > 0));
+    return {
+        l1Distance,
+        klDivergence: Math.max(0, klDivergence),
+        topUid,
+        topShare,
+        disappeared,
+        disappearedRatio: previousUids.length ? disappeared.length / previousUids.length : 0,
+    };
+};
+
+export const findViolations = (metrics: AnomalyMetrics, baseline: Record<string, number>, previousCount: number, opts: AnomalyGuardOptions): string[] => {
+    const violations: string[] = [];
+    if (metrics.l1Distance > opts.maxL1) {
+        violations.push(`L1 distance ${metrics.l1Distance.toFixed(4)} exceeds ${opts.maxL1}`);
+    }
+    if (opts.maxKl > 0 && metrics.klDivergence > opts.maxKl) {
+        violations.push(`KL divergence ${metrics.klDivergence.toFixed(4)} exceeds ${opts.maxKl}`);
+    }
+    // A UID that already held a large share is not a sudden concentration
+    if (metrics.topUid !== null && metrics.topShare > opts.maxShare && (baseline[metrics.topUid] ?? 0) <= opts.maxShare) {
+        violations.push(`UID ${metrics.topUid} jumps to ${(metrics.topShare * 100).toFixed(2)}% of the weight (max ${(opts.maxShare * 100).toFixed(2)}%)`);
+    }
+    if (previousCount >= MIN_DISAPPEARANCE_BASE && metrics.disappearedRatio > opts.maxDisappeared) {
+        violations.push(`${metrics.disappeared.length}/${previousCount} UIDs disappeared (max ${(opts.maxDisappeared * 100).toFixed(0)}%)`);
+    }
+    return violations;
+};
+
+export const createAnomalyGuard = (opts: AnomalyGuardOptions) => {
+    const anomalyDir = path.join(opts.logDir, 'anomaly');
+    const quarantineDir = path.join(anomalyDir, 'quarantine');
+    // Normalized accepted maps, oldest first
+    let history: Record<string, number>[] = [];
+    let consecutiveQuarantines = 0;
+
+    const accept = (weights: Record<string, number>) => {
+        history.push(weights);
+        if (history.length > opts.historySize) history = history.slice(-opts.historySize);
+    };
+
+    const record = async (decision: AnomalyDecision, weights: Record<string, number>, baseline: Record<string, number>) => {
+        try {
+            await fs.mkdir(quarantineDir, { recursive: true });
+            await fs.appendFile(path.join(anomalyDir, 'decisions.jsonl'), JSON.stringify(decision) + '\n');
+            if (decision.action === 'quarantined') {
+                const file = path.join(quarantineDir, `${decision.timestamp.replace(/[:.]/g, '-')}.json`);
+                await fs.writeFile(file, JSON.stringify({ ...decision, weights, baseline }, null, 2));
+            }
+        } catch (err) {
+            log.warn('Failed to record anomaly guard decision:', err);
+        }
+    };
+
+    return {
+        /**
+         * Seed the history with the restored EMA so the first map after a restart
+         * is checked too. Ignored once the history has entries.
+         */
+        seed: (emaWeights: Record<string, number>): void => {
+            if (history.length) return;
+            const seeded = normalizeMap(Object.fromEntries(Object.entries(normalizeMap(emaWeights)).filter(([, w]) => w >= SEED_MIN_SHARE)));
+            if (Object.keys(seeded).length) history = [seeded];
+        },
+
+        /**
+         * Check a combined UID weight map. Only an `accepted` or `released` map may
+         * be fed into the EMA; in report mode violations are logged but every map
+         * is accepted.
+         */
+        evaluate: async (uidWeights: Record<string, number>, now = Date.now()): Promise<AnomalyDecision> => {
+            const incoming = normalizeMap(uidWeights);
+            const decision: AnomalyDecision = {
+                timestamp: new Date(now).toISOString(),
+                mode: opts.mode,
+                action: 'accepted',
+                violations: [],
+                metrics: null,
+                consecutiveQuarantines: 0,
+            };
+            if (opts.mode === 'off') return decision;
+
+            if (!history.length) {
+                accept(incoming);
+                await record(decision, uidWeights, {});
+                return decision;
+            }
+
+            const baseline = meanMap(history);
+            const previous = history[history.length - 1];
+            decision.metrics = measureAnomaly(incoming, baseline, previous);
+            decision.violations = findViolations(decision.metrics, baseline, Object.keys(previous).length, opts);
+
+            if (!decision.violations.length || opts.mode === 'report') {
+                consecutiveQuarantines = 0;
+                accept(incoming);
+            } else if (opts.releaseAfter > 0 && consecutiveQuarantines >= opts.releaseAfter) {
+                // The shift persisted; start a new history from it
+                decision.action = 'released';
+                consecutiveQuarantines = 0;
+                history = [incoming];
+            } else {
+                decision.action = 'quarantined';
+                consecutiveQuarantines++;
+            }
+            decision.consecutiveQuarantines = consecutiveQuarantines;
+            await record(decision, uidWeights, baseline);
+            return decision;
+        },
+    };
+};
+
+export type AnomalyGuard = ReturnType<typeof createAnomalyGuard>;
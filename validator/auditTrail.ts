@@ -0,0 +1,330 @@
+/**
+ * Audit trail for the sn77 validator
+ *
+ * Every iteration is recorded in an embedded SQLite database: the raw weights of
+ * every source, a hash of the registry snapshot, the combined, EMA and normalized
+ * weights, the u16 vector that was submitted, the transaction receipt, the outcome
+ * with its reason, and the errors. Each UID also gets a row per iteration, so a
+ * disputed emission ("what did UID 12 get last Tuesday and why") is one query
+ * away (see scripts/history.ts).
+ * Bun cannot load the better-sqlite3 addon; under Bun its built-in bun:sqlite is used.
+ */
+
+import crypto from 'crypto';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { TxReceipt } from './txManager';
+import type { RegistryMapResponse, Result } from './types';
+
+export type IterationOutcome = 'submitted' | 'skipped' | 'failed';
+
+export interface SubmittedVector {
+  uids: number[];
+  // u16 values as submitted (or committed)
+  values: number[];
+  versionKey: number;
+}
+
+export interface IterationRecord {
+  iteration: number;
+  startedAt: number;
+  finishedAt: number;
+  netuid: number;
+  hotkey: string;
+  version: string;
+  outcome: IterationOutcome;
+  // why weights were (not) submitted
+  reason: string;
+  registryHash: string | null;
+  // raw weights per source name, keyed by hotkey as served
+  sourceWeights: Record<string, Record<string, number>>;
+  // the remaining maps are keyed by UID
+  uidHotkeys: Record<string, string>;
+  combinedWeights: Record<string, number> | null;
+  emaWeights: Record<string, number> | null;
+  normalizedWeights: Record<string, number> | null;
+  submitted: SubmittedVector | null;
+  receipt: TxReceipt | null;
+  // anomaly guard decision, null when it did not run
+  anomaly: { action: string; violations: string[] } | null;
+  errors: string[];
+}
+
+// An iteration as listed by queryIterations
+export interface IterationSummary {
+  id: number;
+  iteration: number;
+  startedAt: number;
+  outcome: IterationOutcome;
+  reason: string;
+  uids: number;
+  txHash: string | null;
+  blockNumber: number | null;
+  errors: string[];
+}
+
+// One UID in one iteration
+export interface UidHistoryEntry {
+  id: number;
+  iteration: number;
+  startedAt: number;
+  outcome: IterationOutcome;
+  reason: string;
+  hotkey: string | null;
+  combined: number | null;
+  ema: number | null;
+  normalized: number | null;
+  // u16 value submitted for the UID, null when nothing was submitted
+  submitted: number | null;
+  txHash: string | null;
+  blockNumber: number | null;
+}
+
+export interface AuditQuery {
+  // unix ms, from inclusive, to exclusive
+  from?: number;
+  to?: number;
+  outcome?: IterationOutcome;
+  limit: number;
+}
+
+// The subset of better-sqlite3 that bun:sqlite implements as well
+type Database = Pick<BetterSqlite3.Database, 'exec' | 'prepare' | 'transaction' | 'close'>;
+
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)));
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS iterations (
+    id INTEGER PRIMARY KEY,
+    iteration INTEGER NOT NULL,
+    started_at INTEGER NOT NULL,
+    finished_at INTEGER NOT NULL,
+    netuid INTEGER NOT NULL,
+    hotkey TEXT NOT NULL,
+    version TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    registry_hash TEXT,
+    source_weights TEXT NOT NULL,
+    combined_weights TEXT,
+    ema_weights TEXT,
+    normalized_weights TEXT,
+    submitted TEXT,
+    tx_hash TEXT,
+    block_number INTEGER,
+    receipt TEXT,
+    anomaly TEXT,
+    errors TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS iterations_started_at ON iterations (started_at);
+CREATE TABLE IF NOT EXISTS uid_weights (
+    iteration_id INTEGER NOT NULL REFERENCES iterations (id) ON DELETE CASCADE,
+    uid INTEGER NOT NULL,
+    hotkey TEXT,
+    combined REAL,
+    ema REAL,
+    normalized REAL,
+    submitted INTEGER,
+    PRIMARY KEY (iteration_id, uid)
+);
+CREATE INDEX IF NOT EXISTS uid_weights_uid ON uid_weights (uid, iteration_id);
+`;
+
+const openDatabase = (file: string, readonly: boolean): Database => {
+    if (process.versions.bun) {
+        const { Database: BunDatabase } = require('bun:sqlite');
+        return new BunDatabase(file, readonly ? { readonly: true } : { create: true });
+    }
+    const BetterDatabase: typeof BetterSqlite3 = require('better-sqlite3');
+    return new BetterDatabase(file, { readonly, fileMustExist: readonly });
+};
+
+/**
+ * Hash of the registry snapshot an iteration worked with: sha256 over the sorted
+ * `<hotkey>=<ethereum address>` lines.
+ */
+export const hashRegistry = (registry: RegistryMapResponse): string =>
+    crypto.createHash('sha256')
+        .update(registry.miners.map(m => `${m.hotkeyAddress}=${m.ethereumAddress ?? ''}`).sort().join('\n'))
+        .digest('hex');
+
+const json = (value: unknown): string | null => (value === null || value === undefined ? null : JSON.stringify(value));
+
+const parseJson = <T>(text: string | null): T | null => (text === null ? null : JSON.parse(text) as T);
+
+/**
+ * Open (and create) the audit trail in `file`. `readonly` opens an existing
+ * database for queries only.
+ */
+export function openAuditTrail(file: string, { readonly = false } = {}): Result<AuditTrail | null> {
+    try {
+        if (!readonly) mkdirSync(path.dirname(file), { recursive: true });
+        const db = openDatabase(file, readonly);
+        if (!readonly) {
+            db.exec('PRAGMA journal_mode = WAL');
+            db.exec(SCHEMA);
+        }
+        db.exec('PRAGMA foreign_keys = ON');
+        return [createAuditTrail(db), null];
+    } catch (err) {
+        return [null, new Error(`Cannot open audit trail ${file}: ${toError(err).message}`)];
+    }
+}
+
+const createAuditTrail = (db: Database) => {
+    const filters = (query: AuditQuery, column: string): { where: string; params: unknown[] } => {
+        const clauses: string[] = [];
+        const params: unknown[] = [];
+        if (query.from !== undefined) { clauses.push(`${column}started_at >= ?`); params.push(query.from); }
+        if (query.to !== undefined) { clauses.push(`${column}started_at < ?`); params.push(query.to); }
+        if (query.outcome) { clauses.push(`${column}outcome = ?`); params.push(query.outcome); }
+        return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+    };
+
+    const insertIteration = db.prepare(`INSERT INTO iterations (
+        iteration, started_at, finished_at, netuid, hotkey, version, outcome, reason, registry_hash, source_weights,
+        combined_weights, ema_weights, normalized_weights, submitted, tx_hash, block_number, receipt, anomaly, errors
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+    const insertUid = db.prepare('INSERT INTO uid_weights (iteration_id, uid, hotkey, combined, ema, normalized, submitted) VALUES (?, ?, ?, ?, ?, ?, ?)');
+
+    const writeRecord = db.transaction((record: IterationRecord) => {
+        const { lastInsertRowid } = insertIteration.run(
+            record.iteration, record.startedAt, record.finishedAt, record.netuid, record.hotkey, record.version,
+            record.outcome, record.reason, record.registryHash, JSON.stringify(record.sourceWeights),
+            json(record.combinedWeights), json(record.emaWeights), json(record.normalizedWeights), json(record.submitted),
+            record.receipt?.txHash ?? null, record.receipt?.blockNumber ?? null, json(record.receipt), json(record.anomaly),
+            JSON.stringify(record.errors),
+        );
+        const submittedValues = new Map(record.submitted?.uids.map((uid, i) => [String(uid), record.submitted!.values[i]]) ?? []);
+        const uids = new Set([
+            ...Object.keys(record.combinedWeights ?? {}),
+            ...Object.keys(record.emaWeights ?? {}),
+            ...Object.keys(record.normalizedWeights ?? {}),
+            ...submittedValues.keys(),
+        ]);
+        for (const uid of uids) {
+            insertUid.run(
+                lastInsertRowid, Number(uid), record.uidHotkeys[uid] ?? null, record.combinedWeights?.[uid] ?? null,
+                record.emaWeights?.[uid] ?? null, record.normalizedWeights?.[uid] ?? null, submittedValues.get(uid) ?? null,
+            );
+        }
+        return Number(lastInsertRowid);
+    });
+
+    // Append an iteration; returns its id
+    const record = (entry: IterationRecord): Result<number> => {
+        try {
+            return [writeRecord(entry), null];
+        } catch (err) {
+            return [0, toError(err)];
+        }
+    };
+
+    const countBefore = db.prepare('SELECT COUNT(*) AS count FROM iterations WHERE started_at < ?');
+    const deleteBefore = db.prepare('DELETE FROM iterations WHERE started_at < ?');
+    // Counted up front: bun:sqlite's `changes` also includes the cascaded uid_weights rows
+    const pruneIterations = db.transaction((before: number) => {
+        const { count } = countBefore.get(before) as { count: number };
+        deleteBefore.run(before);
+        return count;
+    });
+
+    // Delete iterations started before `before` (unix ms); returns how many were removed
+    const prune = (before: number): Result<number> => {
+        try {
+            return [pruneIterations(before), null];
+        } catch (err) {
+            return [0, toError(err)];
+        }
+    };
+
+    // Iterations matching `query`, newest first
+    const queryIterations = (query: AuditQuery): Result<IterationSummary[]> => {
+        try {
+            const { where, params } = filters(query, '');
+            const rows = db.prepare(`SELECT id, iteration, started_at, outcome, reason, tx_hash, block_number, errors,
+                (SELECT COUNT(*) FROM uid_weights WHERE iteration_id = iterations.id) AS uids
+                FROM iterations ${where} ORDER BY started_at DESC, id DESC LIMIT ?`).all(...params, query.limit) as any[];
+            return [rows.map(row => ({
+                id: row.id,
+                iteration: row.iteration,
+                startedAt: row.started_at,
+                outcome: row.outcome,
+                reason: row.reason,
+                uids: row.uids,
+                txHash: row.tx_hash,
+                blockNumber: row.block_number,
+                errors: JSON.parse(row.errors),
+            })), null];
+        } catch (err) {
+            return [[], toError(err)];
+        }
+    };
+
+    // Everything recorded for `uid` in the iterations matching `query`, newest first
+    const queryUid = (uid: number, query: AuditQuery): Result<UidHistoryEntry[]> => {
+        try {
+            const { where, params } = filters(query, 'i.');
+            const rows = db.prepare(`SELECT i.id, i.iteration, i.started_at, i.outcome, i.reason, i.tx_hash, i.block_number,
+                u.hotkey, u.combined, u.ema, u.normalized, u.submitted
+                FROM uid_weights u JOIN iterations i ON i.id = u.iteration_id
+                ${where ? `${where} AND` : 'WHERE'} u.uid = ? ORDER BY i.started_at DESC, i.id DESC LIMIT ?`).all(...params, uid, query.limit) as any[];
+            return [rows.map(row => ({
+                id: row.id,
+                iteration: row.iteration,
+                startedAt: row.started_at,
+                outcome: row.outcome,
+                reason: row.reason,
+                hotkey: row.hotkey,
+                combined: row.combined,
+                ema: row.ema,
+                normalized: row.normalized,
+                submitted: row.submitted,
+                txHash: row.tx_hash,
+                blockNumber: row.block_number,
+            })), null];
+        } catch (err) {
+            return [[], toError(err)];
+        }
+    };
+
+    // The full record of iteration `id`, null when there is none
+    const getIteration = (id: number): Result<(IterationRecord & { id: number }) | null> => {
+        try {
+            const row = db.prepare('SELECT * FROM iterations WHERE id = ?').get(id) as any;
+            if (!row) return [null, null];
+            const uidHotkeys: Record<string, string> = {};
+            for (const { uid, hotkey } of db.prepare('SELECT uid, hotkey FROM uid_weights WHERE iteration_id = ? AND hotkey IS NOT NULL').all(id) as any[]) {
+                uidHotkeys[String(uid)] = hotkey;
+            }
+            return [{
+                id: row.id,
+                iteration: row.iteration,
+                startedAt: row.started_at,
+                finishedAt: row.finished_at,
+                netuid: row.netuid,
+                hotkey: row.hotkey,
+                version: row.version,
+                outcome: row.outcome,
+                reason: row.reason,
+                registryHash: row.registry_hash,
+                sourceWeights: JSON.parse(row.source_weights),
+                uidHotkeys,
+                combinedWeights: parseJson(row.combined_weights),
+                emaWeights: parseJson(row.ema_weights),
+                normalizedWeights: parseJson(row.normalized_weights),
+                submitted: parseJson(row.submitted),
+                receipt: parseJson(row.receipt),
+                anomaly: parseJson(row.anomaly),
+                errors: JSON.parse(row.errors),
+            }, null];
+        } catch (err) {
+            return [null, toError(err)];
+        }
+    };
+
+    return { record, prune, queryIterations, queryUid, getIteration, close: () => { db.close(); } };
+};
+
+export type AuditTrail = ReturnType<typeof createAuditTrail>;
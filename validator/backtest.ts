@@ -0,0 +1,154 @@
+/**
+ * Backtest of the weight smoothing for the sn77 validator
+ *
+ * Replays recorded weight snapshots through the same updateEma /
+ * normalizeFinalMinerWeights / u16 conversion the main loop uses (without the
+ * subnet's weight hyperparameters, which are not recorded), for one set of
+ * EMA_ALPHA, LOOP_DELAY_MS and SET_INTERVAL_MS values, and measures:
+ * - convergence: time until a miner that appears mid-replay reaches a share of its target weight
+ * - churn: L1 distance between the weights in effect at the end of consecutive
+ *   epochs; snapshots carry no block numbers, so epochs are epochMs windows
+ *   counted from the first snapshot
+ * - rounding: L1 distance between the normalized float weights and their u16 encoding
+ */
+
+import { normalizeFinalMinerWeights, updateEma, U16_MAX } from './weightMath';
+import { toU16LargestRemainder } from './weightConversion';
+import type { WeightSnapshot } from './snapshots';
+
+export interface BacktestParams {
+  alpha: number;
+  loopDelayMs: number;
+  setIntervalMs: number;
+  // (tempo + 1) blocks; the chain reads the weights once per epoch
+  epochMs: number;
+  // share of its target weight a new miner must reach to count as converged
+  targetRatio: number;
+}
+
+export interface Distribution {
+  mean: number;
+  median: number;
+  p90: number;
+  max: number;
+}
+
+export interface BacktestReport {
+  params: BacktestParams;
+  snapshots: number;
+  emaUpdates: number;
+  weightSets: number;
+  // miners with no weight in the first snapshot that gained weight later
+  newMiners: number;
+  // time to reach targetRatio of the target, in ms; null when no new miner converged
+  convergenceMs: Distribution | null;
+  notConverged: string[];
+  // epoch boundaries compared for churn
+  epochs: number;
+  // L1 distance between the weights in effect at the end of consecutive epochs
+  churn: Distribution | null;
+  // L1 distance between the float weights and the submitted u16 weights
+  roundingError: Distribution | null;
+}
+
+const normalize = (weights: Record<string, number>): Record<string, number> => {
+    const total = Object.values(weights).reduce((sum, w) => sum + (isFinite(w) && w > 0 ? w : 0), 0);
+    if (total <= 0) return {};
+    return Object.fromEntries(Object.entries(weights).map(([uid, w]) => [uid, isFinite(w) && w > 0 ? w / total : 0]));
+};
+
+const l1 = (a: Record<string, number>, b: Record<string, number>): number => {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    let sum = 0;
+    for (const k of keys) sum += Math.abs((a[k] ?? 0) - (b[k] ?? 0));
+    return sum;
+};
+
+const quantile = (sorted: number[], q: number): number => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+
+export const distribution = (values: number[]): Distribution | null => {
+    if (!values.length) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+        mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+        median: quantile(sorted, 0.5),
+        p90: quantile(sorted, 0.9),
+        max: sorted[sorted.length - 1],
+    };
+};
+
+export const runBacktest = (snapshots: WeightSnapshot[], params: BacktestParams): BacktestReport => {
+    let ema: Record<string, number> = {};
+    let lastUpdate = -Infinity;
+    let lastSet = -Infinity;
+    let previousSet: Record<string, number> | null = null;
+    // weights in effect at the end of the last closed epoch
+    let epochEnd: Record<string, number> | null = null;
+    const start = Date.parse(snapshots[0]?.timestamp ?? '');
+    let epoch = 0;
+    let emaUpdates = 0;
+    const churn: number[] = [];
+    const rounding: number[] = [];
+
+    // miners with weight in the first snapshot are not new
+    const seen = new Set(Object.entries(snapshots[0]?.weights ?? {}).filter(([, w]) => w > 0).map(([uid]) => uid));
+    // new miners not converged yet -> time they first had weight
+    const pending = new Map<string, number>();
+    const convergence: number[] = [];
+
+    for (const snapshot of snapshots) {
+        const now = Date.parse(snapshot.timestamp);
+        // Close every epoch that ended before this snapshot (unchanged weights add no churn)
+        for (; epoch < Math.floor((now - start) / params.epochMs); epoch++) {
+            if (!previousSet) continue;
+            if (epochEnd) churn.push(l1(epochEnd, previousSet));
+            epochEnd = previousSet;
+        }
+        // The validator only sees the snapshots of its own iterations
+        if (now - lastUpdate < params.loopDelayMs) continue;
+        lastUpdate = now;
+
+        const target = normalize(snapshot.weights);
+        for (const [uid, w] of Object.entries(target)) {
+            if (w > 0 && !seen.has(uid)) {
+                seen.add(uid);
+                pending.set(uid, now);
+            }
+        }
+
+        ema = updateEma(ema, snapshot.weights, params.alpha);
+        emaUpdates++;
+        if (now - lastSet < params.setIntervalMs) continue;
+        lastSet = now;
+
+        const [normalized] = normalizeFinalMinerWeights(ema);
+        const uids = Object.keys(normalized).filter(uid => normalized[uid] > 0);
+        const [scaled, scaleErr] = toU16LargestRemainder(uids.map(uid => normalized[uid]));
+        if (scaleErr) continue;
+
+        const submitted = Object.fromEntries(uids.map((uid, i) => [uid, scaled[i] / U16_MAX]));
+        rounding.push(l1(normalized, submitted));
+        previousSet = submitted;
+
+        for (const [uid, firstSeen] of pending) {
+            const goal = target[uid] ?? 0;
+            if (goal > 0 && (submitted[uid] ?? 0) >= params.targetRatio * goal) {
+                convergence.push(now - firstSeen);
+                pending.delete(uid);
+            }
+        }
+    }
+
+    return {
+        params,
+        snapshots: snapshots.length,
+        emaUpdates,
+        weightSets: rounding.length,
+        epochs: churn.length,
+        newMiners: convergence.length + pending.size,
+        convergenceMs: distribution(convergence),
+        notConverged: [...pending.keys()],
+        churn: distribution(churn),
+        roundingError: distribution(rounding),
+    };
+};
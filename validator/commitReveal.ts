@@ -0,0 +1,112 @@
+/**
+ * Commit-reveal weight submission for the sn77 validator
+ *
+ * When `commitRevealWeightsEnabled` is set for the subnet, weights are first
+ * committed as a blake2 hash of (hotkey, netuid, uids, values, salt, versionKey)
+ * and revealed `revealPeriodEpochs` epochs later. The pending commit is kept on
+ * disk so a restart between commit and reveal does not lose the salt.
+ */
+
+import { promises as fs } from 'fs';
+import { randomInt } from 'crypto';
+import type { ApiPromise } from '@polkadot/api';
+import { blake2AsHex } from '@polkadot/util-crypto';
+import type { Result } from './types';
+
+export interface PendingCommit {
+  netuid: number;
+  hotkey: string;
+  commitHash: string;
+  uids: number[];
+  values: number[];
+  salt: number[];
+  versionKey: number;
+  commitBlock: number;
+  revealStartBlock: number;
+  revealEndBlock: number;
+  createdAt: string;
+}
+
+export type RevealStatus = 'waiting' | 'ready' | 'expired';
+
+const SALT_LENGTH = 8;
+
+const toNumber = (codec: any): number => codec?.toNumber ? codec.toNumber() : Number(codec?.toString() ?? 0);
+
+export async function isCommitRevealEnabled(api: ApiPromise, netuid: number): Promise<Result<boolean>> {
+    try {
+        const query = (api.query.subtensorModule as any)?.commitRevealWeightsEnabled;
+        if (!query) return [false, null]; // runtime without commit-reveal
+        const enabled = await query(netuid);
+        return [(enabled as any).isTrue ?? Boolean((enabled as any).toJSON()), null];
+    } catch (err) {
+        return [false, err instanceof Error ? err : new Error(String(err))];
+    }
+}
+
+/**
+ * Compute the reveal window for a commit made at `commitBlock`.
+ * Mirrors subtensor's epoch index: (block + netuid + 1) / (tempo + 1).
+ */
+export async function getRevealWindow(api: ApiPromise, netuid: number, commitBlock: number): Promise<Result<{ start: number; end: number } | null>> {
+    try {
+        const module = api.query.subtensorModule as any;
+        const tempo = toNumber(await module.tempo(netuid));
+        const revealPeriod = module.revealPeriodEpochs ? toNumber(await module.revealPeriodEpochs(netuid)) : 1;
+        if (!tempo) return [null, new Error(`Invalid tempo ${tempo} for netuid ${netuid}`)];
+
+        const commitEpoch = Math.floor((commitBlock + netuid + 1) / (tempo + 1));
+        const revealEpoch = commitEpoch + revealPeriod;
+        const start = revealEpoch * (tempo + 1) - (netuid + 1);
+        return [{ start, end: start + tempo }, null];
+    } catch (err) {
+        return [null, err instanceof Error ? err : new Error(String(err))];
+    }
+}
+
+export const generateSalt = (): number[] => Array.from({ length: SALT_LENGTH }, () => randomInt(0, 65536));
+
+export const computeCommitHash = (
+    api: ApiPromise,
+    hotkey: string,
+    netuid: number,
+    uids: number[],
+    values: number[],
+    salt: number[],
+    versionKey: number,
+): string => {
+    const encoded = api.createType('(AccountId, u16, Vec<u16>, Vec<u16>, Vec<u16>, u64)', [hotkey, netuid, uids, values, salt, versionKey]);
+    return blake2AsHex(encoded.toU8a(), 256);
+};
+
+export const getRevealStatus = (commit: PendingCommit, currentBlock: number): RevealStatus => {
+    if (currentBlock < commit.revealStartBlock) return 'waiting';
+    if (currentBlock <= commit.revealEndBlock) return 'ready';
+    return 'expired';
+};
+
+export async function loadPendingCommit(filePath: string): Promise<PendingCommit | null> {
+    try {
+        const data = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(data) as PendingCommit;
+    } catch {
+        return null;
+    }
+}
+
+export async function savePendingCommit(filePath: string, commit: PendingCommit): Promise<Error | null> {
+    try {
+        await fs.writeFile(filePath, JSON.stringify(commit, null, 2));
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err : new Error(String(err));
+    }
+}
+
+export async function clearPendingCommit(filePath: string): Promise<void> {
+    try {
+        await fs.unlink(filePath);
+    } catch {
+        // File doesn't exist, which is fine
+    }
+}
@@ -0,0 +1,239 @@
+/**
+ * Control API for the sn77 validator
+ *
+ * Opt-in HTTP server that lets an operator steer the running loop without
+ * restarting it. It only listens on 127.0.0.1 or on a Unix socket:
+ * - `GET /status`: loop, pause and watchdog status
+ * - `GET /state`: EMA weights, last weight set and the weight source caches
+ * - `POST /pause` (`{ "reason": "..." }`) and `POST /resume`: weight submission
+ * - `POST /set-weights`: fetch fresh weights and set them now, skipping the loop
+ *   delay, the rate-limit schedule and the weight diff threshold
+ * - `POST /version-check`: ping the server and check version compatibility
+ * - `POST /reload-config`: re-read the configuration and apply what can change
+ *   at runtime
+ * Every request needs `Authorization: Bearer <token>`, the token being the first
+ * line of the token file. A missing token file is created with a random token,
+ * readable by its owner only. Actions answer `{ ok, result }` or `{ ok, error }`.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import http from 'http';
+import path from 'path';
+import { getLogger } from '../utils/logger';
+import type { Result } from './types';
+
+export interface ControlHandlers {
+  status: () => unknown;
+  state: () => unknown;
+  pause: (reason: string) => Promise<Result<unknown>>;
+  resume: () => Promise<Result<unknown>>;
+  setWeights: () => Promise<Result<unknown>>;
+  versionCheck: () => Promise<Result<unknown>>;
+  reloadConfig: () => Promise<Result<unknown>>;
+}
+
+export interface ControlTarget {
+  // TCP port on 127.0.0.1; ignored when socket is set
+  port: number;
+  // Unix socket path
+  socket: string;
+}
+
+export interface ControlServerOptions extends ControlTarget {
+  token: string;
+  handlers: ControlHandlers;
+}
+
+// Outcome of a forced weight set, answered once the forced iteration finished
+export interface ForcedSetResult {
+  iteration: number;
+  submitted: boolean;
+  message: string;
+  txHash: string | null;
+  blockNumber: number | null;
+}
+
+export interface ControlResponse {
+  status: number;
+  body: { ok: boolean; result?: unknown; error?: string };
+}
+
+const log = getLogger('control');
+
+const CONTROL_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 16 * 1024;
+const MIN_TOKEN_LENGTH = 16;
+
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)));
+
+/**
+ * Read the control token: the first line of `file`.
+ */
+export async function readControlToken(file: string): Promise<Result<string>> {
+    try {
+        const token = (await fs.readFile(file, 'utf8')).split(/\r?\n/)[0].trim();
+        if (token.length < MIN_TOKEN_LENGTH) return ['', new Error(`Control token in ${file} must be at least ${MIN_TOKEN_LENGTH} characters`)];
+        return [token, null];
+    } catch (err) {
+        return ['', new Error(`Cannot read control token ${file}: ${toError(err).message}`)];
+    }
+}
+
+/**
+ * Read the control token, creating `file` (mode 0600) with a random token when
+ * it does not exist yet.
+ */
+export async function ensureControlToken(file: string): Promise<Result<string>> {
+    try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, crypto.randomBytes(32).toString('hex') + '\n', { flag: 'wx', mode: 0o600 });
+        log.notify(`Created control token ${file}`);
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+            return ['', new Error(`Cannot create control token ${file}: ${toError(err).message}`)];
+        }
+    }
+    return readControlToken(file);
+}
+
+const isAuthorized = (req: http.IncomingMessage, token: string): boolean => {
+    const header = req.headers.authorization ?? '';
+    const presented = Buffer.from(header.startsWith('Bearer ') ? header.slice(7).trim() : '');
+    const expected = Buffer.from(token);
+    return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Result<Record<string, unknown>>> => new Promise(resolve => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('error', err => resolve([{}, err]));
+    req.on('end', () => {
+        if (size > MAX_BODY_BYTES) return resolve([{}, new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`)]);
+        const text = Buffer.concat(chunks).toString('utf8').trim();
+        if (!text) return resolve([{}, null]);
+        try {
+            const parsed = JSON.parse(text);
+            if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return resolve([{}, new Error('Request body must be a JSON object')]);
+            resolve([parsed as Record<string, unknown>, null]);
+        } catch (err) {
+            resolve([{}, new Error(`Invalid JSON body: ${toError(err).message}`)]);
+        }
+    });
+});
+
+const send = (res: http.ServerResponse, { status, body }: ControlResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * Start the control server on `socket` or on 127.0.0.1:`port`. A stale socket
+ * file left by a previous run is replaced.
+ */
+export async function startControlServer(opts: ControlServerOptions): Promise<Result<http.Server | null>> {
+    const { handlers } = opts;
+    const routes: Record<string, (body: Record<string, unknown>) => Promise<Result<unknown>>> = {
+        'GET /status': async () => [handlers.status(), null],
+        'GET /state': async () => [handlers.state(), null],
+        'POST /pause': body => handlers.pause(typeof body.reason === 'string' ? body.reason : ''),
+        'POST /resume': () => handlers.resume(),
+        'POST /set-weights': () => handlers.setWeights(),
+        'POST /version-check': () => handlers.versionCheck(),
+        'POST /reload-config': () => handlers.reloadConfig(),
+    };
+    const paths = new Set(Object.keys(routes).map(route => route.split(' ')[1]));
+
+    const server = http.createServer(async (req, res) => {
+        const url = (req.url || '/').split('?')[0];
+        if (!isAuthorized(req, opts.token)) {
+            send(res, { status: 401, body: { ok: false, error: 'Missing or invalid control token' } });
+            return;
+        }
+        const route = routes[`${req.method} ${url}`];
+        if (!route) {
+            send(res, paths.has(url)
+                ? { status: 405, body: { ok: false, error: `${req.method} not allowed on ${url}` } }
+                : { status: 404, body: { ok: false, error: `Unknown control endpoint ${url}` } });
+            return;
+        }
+        const [body, bodyErr] = await readBody(req);
+        if (bodyErr) {
+            send(res, { status: 400, body: { ok: false, error: bodyErr.message } });
+            return;
+        }
+        try {
+            log.info(`${req.method} ${url}`);
+            const [result, err] = await route(body);
+            if (err) {
+                log.warn(`${req.method} ${url} refused: ${err.message}`);
+                send(res, { status: 409, body: { ok: false, error: err.message } });
+                return;
+            }
+            send(res, { status: 200, body: { ok: true, result } });
+        } catch (err) {
+            log.error(`${req.method} ${url} failed:`, err);
+            send(res, { status: 500, body: { ok: false, error: toError(err).message } });
+        }
+    });
+    server.on('error', err => log.error('Control server error:', err));
+
+    if (opts.socket) {
+        try {
+            if ((await fs.lstat(opts.socket)).isSocket()) await fs.unlink(opts.socket);
+        } catch {
+            // No previous socket
+        }
+    }
+    const listenErr = await new Promise<Error | null>(resolve => {
+        server.once('error', resolve);
+        const onListening = () => {
+            server.off('error', resolve);
+            resolve(null);
+        };
+        if (opts.socket) server.listen(opts.socket, onListening);
+        else server.listen(opts.port, CONTROL_HOST, onListening);
+    });
+    if (listenErr) return [null, new Error(`Control server cannot listen on ${describeTarget(opts)}: ${listenErr.message}`)];
+    if (opts.socket) await fs.chmod(opts.socket, 0o600).catch(err => log.warn(`Failed to restrict ${opts.socket}:`, err));
+    return [server, null];
+}
+
+export const describeTarget = (target: ControlTarget): string =>
+    target.socket ? `unix:${target.socket}` : `http://${CONTROL_HOST}:${target.port}`;
+
+/**
+ * Call a control endpoint, e.g. `controlRequest(target, token, 'POST', '/pause', { reason })`.
+ */
+export const controlRequest = (target: ControlTarget, token: string, method: 'GET' | 'POST', route: string, body?: Record<string, unknown>, timeoutMs = 10 * 60 * 1000): Promise<Result<ControlResponse | null>> =>
+    new Promise(resolve => {
+        const payload = body ? JSON.stringify(body) : '';
+        const req = http.request({
+            ...(target.socket ? { socketPath: target.socket } : { host: CONTROL_HOST, port: target.port }),
+            method,
+            path: route,
+            timeout: timeoutMs,
+            headers: {
+                Authorization: `Bearer ${token}`,
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(payload),
+            },
+        }, res => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => {
+                try {
+                    resolve([{ status: res.statusCode ?? 0, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) }, null]);
+                } catch (err) {
+                    resolve([null, new Error(`Invalid response from ${describeTarget(target)}: ${toError(err).message}`)]);
+                }
+            });
+        });
+        req.on('timeout', () => req.destroy(new Error(`No response from ${describeTarget(target)} within ${Math.round(timeoutMs / 1000)}s`)));
+        req.on('error', err => resolve([null, new Error(`Control request to ${describeTarget(target)} failed: ${err.message}`)]));
+        req.end(payload);
+    });
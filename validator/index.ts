@@ -5,117 +5,223 @@
  */
 
 import dotenv from 'dotenv';
-import { promises as fs } from 'fs';
+import { promises as fs, rmSync } from 'fs';
 import path from 'path';
-import { execSync } from 'child_process';
-import { ApiPromise, WsProvider } from '@polkadot/api';
+import { ApiPromise } from '@polkadot/api';
 import { Keyring } from '@polkadot/keyring';
-import type { ISubmittableResult } from '@polkadot/types/types';
 import { u8aToHex } from '@polkadot/util';
+import { fetchValidatorWeights } from '../utils/bittensorUtils';
+import { createConnectionManager, resolveEndpoints } from '../utils/connectionManager';
+import { loadSigningKey } from '../utils/wallet';
+import { captureConsole, getLogger, initLogger, setLogLevel } from '../utils/logger';
+import { diffConfig, formatConfig, loadConfig, setConfig, type Config } from '../utils/config';
+import { auditServerWeights, type AuditMode } from './weightAudit';
+import { createAnomalyGuard } from './anomalyGuard';
+import { createWatchdog, type WatchdogCheck } from './watchdog';
+import { createTxManager, type TxReceipt } from './txManager';
+import { createUidResolver, type UidMismatchPolicy } from './uidResolver';
+import {
+    clearPendingCommit,
+    computeCommitHash,
+    generateSalt,
+    getRevealStatus,
+    getRevealWindow,
+    isCommitRevealEnabled,
+    loadPendingCommit,
+    savePendingCommit,
+    type PendingCommit,
+} from './commitReveal';
+import { metrics, startMetricsServer } from './metrics';
+import { checkVersionKey, fetchWeightsVersionKey, versionToKey, type VersionKeyCheck } from './versionKey';
+import { describeTarget, ensureControlToken, startControlServer, type ForcedSetResult } from './control';
+import { fetchWeightSchedule, isRateLimitError, msUntilEligible, type WeightSchedule } from './scheduler';
+import { computeWeightDiff, writeWeightDiff } from './weightDiff';
+import { normalizeFinalMinerWeights, updateEma } from './weightMath';
+import { convertWeights, fetchWeightHyperparameters } from './weightConversion';
+import { EXIT_CODE_RESTART, applyUpdate, confirmUpdate, type UpdatePolicy } from './updater';
+import { parsePublicKey, type SignaturePolicy } from './payloadVerification';
+import { pruneWeightSnapshots, writeWeightSnapshot } from './snapshots';
+import { hashRegistry, openAuditTrail, type AuditTrail, type IterationRecord } from './auditTrail';
+import { combineWeights, fetchAllSources, parseWeightSources, toUidWeights, type ConsensusMode } from './weightSources';
+import { createAlerter, createStormDetector, parseAlertTargets } from './alerts';
+import { SIMULATED_SERVER_URL } from './simulatedServer';
+import { createSimulation, loadScenario } from './simulation';
+import {
+    EXIT_CODE_CONFIG_INVALID,
+    EXIT_CODE_INIT_FAILED,
+    EXIT_CODE_OK,
+    EXIT_CODE_TOO_MANY_ERRORS,
+    EXIT_CODE_UNHANDLED_ERROR,
+    EXIT_CODE_VERSION_TIMEOUT,
+    createLifecycle,
+} from './lifecycle';
+import {
+    STATE_VERSION,
+    getStateRejectReason,
+    loadValidatorState,
+    pruneRecycledUids,
+    saveValidatorState,
+    type ValidatorState,
+} from './state';
+import type { PingResponse, RegistryMapResponse, Result, VersionWarning } from './types';
 
 // ----------------------
-//  Logging Configuration
+//  Configuration
 // ----------------------
-// Must be set up *before* other imports execute arbitrary logging.
-const TEST_MODE = (process.env.TEST_MODE || 'false').toLowerCase() === 'true';
-const LOG_CONSOLE = (process.env.LOG || 'false').toLowerCase() === 'true' || TEST_MODE;
-const logDir = path.join(__dirname, '..', 'logs');
+// Must be loaded *before* anything reads a setting or logs to a file.
+// Layers: defaults, config file, environment (.env included), --set overrides
+dotenv.config();
+const [loadedConfig, configErr] = loadConfig();
+if (configErr || !loadedConfig) {
+    console.error(configErr?.message ?? 'Failed to load configuration');
+    process.exit(EXIT_CODE_CONFIG_INVALID);
+}
+const config = loadedConfig.config;
+setConfig(config);
+// Print the effective configuration (secrets redacted) and exit
+const PRINT_CONFIG = process.argv.includes('--print-config');
+
+// ----------------------
+//  Simulation
+// ----------------------
+// Scenario file to run against the in-process chain and server instead of finney and SERVER_URL
+const [scenario, scenarioErr] = config.simulation.scenario ? loadScenario(config.simulation.scenario) : [null, null];
+if (scenarioErr) {
+    console.error(scenarioErr.message);
+    process.exit(EXIT_CODE_CONFIG_INVALID);
+}
+const simulation = scenario ? createSimulation(scenario, config.netuid) : null;
+simulation?.installFetch();
+
+const TEST_MODE = config.validator.testMode;
+const LOG_CONSOLE = config.logging.console || TEST_MODE;
+// Every simulated run starts from an empty state, update and log directory
+const logDir = scenario ? path.join(__dirname, '..', 'logs', 'simulation', scenario.name) : path.join(__dirname, '..', 'logs');
+if (scenario) rmSync(logDir, { recursive: true, force: true });
 fs.mkdir(logDir, { recursive: true }).catch(() => {});
-const LOG_FILE_PATH = path.join(logDir, `validator-${new Date().toISOString().slice(0, 10)}.log`);
+const log = getLogger('validator');
+
+initLogger({
+    name: 'validator',
+    dir: logDir,
+    level: config.logging.level,
+    format: config.logging.format,
+    maxSize: config.logging.maxSize,
+    maxFiles: config.logging.maxFiles,
+    console: LOG_CONSOLE ? 'all' : 'notify',
+});
+// Dependencies (e.g. @polkadot/api) log through console; keep that in the log files too
+captureConsole(getLogger('console'));
+if (PRINT_CONFIG) {
+    // stdout directly: console output is captured by the logger
+    process.stdout.write(formatConfig(config));
+    process.exit(0);
+}
+log.notify(`Effective configuration${loadedConfig.file ? ` (${loadedConfig.file})` : ''}:\n${formatConfig(config)}`);
 
 // ----------------------
 //  Version Management
 // ----------------------
 const packageJson = require(path.join(__dirname, '..', 'package.json'));
 const CLIENT_VERSION = packageJson.version;
-const PING_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
+// 30 minutes; simulations ping every iteration so server version changes apply at the next step
+const PING_INTERVAL_MS = simulation ? 0 : 30 * 60 * 1000;
 const VERSION_CHECK_TIMEOUT_MS = 12 * 60 * 60 * 1000; // 12 hours
 const VERSION_WARNING_FILE = path.join(logDir, 'version-warning.json');
-const AUTO_UPDATE_ENABLED = (process.env.AUTO_UPDATE_ENABLED || 'false').toLowerCase() === 'true';
-
-// Preserve originals
-const _origLog = console.log.bind(console);
-const _origWarn = console.warn.bind(console);
-const _origError = console.error.bind(console);
-
-const appendLog = (level: string, args: any[]): void => {
-    const line = `[${new Date().toISOString()}] ${level}: ` + args.map(a => {
-        if (typeof a === 'string') return a;
-        try { return JSON.stringify(a); } catch { return String(a); }
-    }).join(' ');
-    
-    // Append the new line
-    fs.appendFile(LOG_FILE_PATH, line + '\n').then(async () => {
-        // Check if we need to trim the log file
-        try {
-            const stats = await fs.stat(LOG_FILE_PATH);
-            if (stats.size > 0) {
-                const content = await fs.readFile(LOG_FILE_PATH, 'utf-8');
-                const lines = content.split('\n');
-                if (lines.length > 10000) {
-                    const trimmedLines = lines.slice(-10000); // Keep last 10000 lines
-                    await fs.writeFile(LOG_FILE_PATH, trimmedLines.join('\n'));
-                }
-            }
-        } catch (trimErr) {
-            // Silently ignore trim errors to avoid logging loops
-        }
-    }).catch(() => {});
-};
+// Same countdown when the subnet's weightsVersionKey requires a newer client
+const CHAIN_VERSION_WARNING_FILE = path.join(logDir, 'chain-version-warning.json');
+type VersionSource = 'server' | 'chain';
+// Submitted as the version key of every weight extrinsic
+const CLIENT_VERSION_KEY = ((): number => {
+    const key = versionToKey(CLIENT_VERSION);
+    if (key === null) {
+        log.error(`package.json version ${CLIENT_VERSION} has no weights version key (expected major.minor.patch with minor <= 99 and patch <= 9)`);
+        process.exit(EXIT_CODE_CONFIG_INVALID);
+    }
+    return key;
+})();
+// Result of the last weightsVersionKey check; weights are not submitted while incompatible
+let chainVersionKey: VersionKeyCheck | null = null;
+const AUTO_UPDATE_ENABLED = config.autoUpdate.enabled;
+// Largest version bump applied automatically; bigger bumps need a manual update
+const AUTO_UPDATE_POLICY: UpdatePolicy = config.autoUpdate.policy;
+const AUTO_UPDATE_TAG_PREFIX = config.autoUpdate.tagPrefix;
+const AUTO_UPDATE_REQUIRE_SIGNED_TAG = config.autoUpdate.requireSignedTag;
+const UPDATE_STATE_FILE = path.join(logDir, 'update-state.json');
+// Pre-flight check run by the updater on a new checkout: start up, connect, ping and exit
+const SMOKE_TEST = process.argv.includes('--smoke-test');
 
-console.log = (...args: any[]): void => {
-    appendLog('LOG', args);
-    if (LOG_CONSOLE) _origLog(...args);
-};
+// ----------------------
+//  Weight Audit
+// ----------------------
+// off: trust the server, report: recompute and log divergence, enforce: refuse to set diverging weights
+let AUDIT_MODE: AuditMode = config.audit.mode;
+let AUDIT_TOLERANCE = config.audit.tolerance; // max L1 distance between server and local weights
 
-console.warn = (...args: any[]): void => {
-    appendLog('WARN', args);
-    if (LOG_CONSOLE) _origWarn(...args);
-};
+// ----------------------
+//  Anomaly Guard
+// ----------------------
+// off: feed every map into the EMA, report: log abrupt shifts, enforce: quarantine them and keep the previous weights
+const anomalyGuard = createAnomalyGuard({ ...config.anomalyGuard, logDir });
 
-console.error = (...args: any[]): void => {
-    appendLog('ERROR', args);
-    _origError(...args); // always show errors
-};
+// ----------------------
+//  Watchdog
+// ----------------------
+// Pause weight submission while the hotkey is deregistered, lacks a validator permit or is below the stake threshold
+const WATCHDOG_ENABLED = config.watchdog.enabled;
+const watchdog = createWatchdog({ netuid: config.netuid, intervalBlocks: config.watchdog.intervalBlocks });
 
-// For messages that should *always* be shown to the user, regardless of LOG flag
-function importantLog(...args: any[]): void {
-    appendLog('IMPORTANT', args);
-    _origLog(...args);
-}
+// ----------------------
+//  UID Resolution
+// ----------------------
+// warn: log registry/chain mismatches, block: refuse to set weights while mismatches exist
+let UID_MISMATCH_POLICY: UidMismatchPolicy = config.uidResolution.mismatchPolicy;
+const uidResolver = createUidResolver(config.netuid);
 
-function userLog(...args: any[]): void {
-    _origLog(`[${new Date().toISOString()}]`, ...args);
-}
+// ----------------------
+//  Weight Diff
+// ----------------------
+// Skip a submission whose L1 distance to the on-chain weights is below the threshold (0 always submits)
+let WEIGHT_DIFF_THRESHOLD = config.weightDiff.threshold;
+// ...unless the on-chain weights are this many blocks old, so the validator never goes inactive
+let WEIGHT_DIFF_MAX_SKIP_BLOCKS = config.weightDiff.maxSkipBlocks;
 
-// Load environment variables from .env file
-dotenv.config();
+// ----------------------
+//  Control API
+// ----------------------
+// Opt-in operator API on 127.0.0.1:CONTROL_PORT or CONTROL_SOCKET: pause, resume, force a weight set, reload config
+const CONTROL_PORT = config.control.port;
+const CONTROL_SOCKET = config.control.socket;
+const CONTROL_TOKEN_FILE = config.control.tokenFile || path.join(logDir, 'control.token');
+
+// ----------------------
+//  Payload Signatures
+// ----------------------
+// Pinned sr25519 key of the weights server (ss58 or hex); payloads must be signed by it
+const WEIGHTS_SIGNER_KEY = config.payloadSignature.signerKey;
+// Verification is enforced as soon as a key is pinned
+const WEIGHTS_SIGNATURE_POLICY: SignaturePolicy = config.payloadSignature.policy ?? (WEIGHTS_SIGNER_KEY ? 'enforce' : 'off');
+const WEIGHTS_MAX_AGE_MS = config.payloadSignature.maxAgeMs; // reject signed payloads older than this
+if (WEIGHTS_SIGNATURE_POLICY !== 'off') {
+    const [, keyErr] = parsePublicKey(WEIGHTS_SIGNER_KEY);
+    if (keyErr) {
+        log.error(`Invalid payloadSignature.signerKey: ${keyErr.message}`);
+        process.exit(EXIT_CODE_CONFIG_INVALID);
+    }
+}
 
 // Toggle test mode via env var; when true, weights are not pushed on-chain
 // Default to false unless explicitly set to true
 if (TEST_MODE) {
-    console.log('Running in TEST_MODE: weights will be saved to JSON files instead of being pushed on-chain');
-    console.log('Console logging is automatically enabled in TEST_MODE');
+    log.info('Running in TEST_MODE: weights will be saved to JSON files instead of being pushed on-chain');
+    log.info('Console logging is automatically enabled in TEST_MODE');
     // Ensure weights directory exists
     const weightsDir = path.join(logDir, 'weights');
     fs.mkdir(weightsDir, { recursive: true }).catch(err => {
-        console.error('Failed to create weights directory:', err);
+        log.error('Failed to create weights directory:', err);
     });
 }
 
-interface WeightsResponse {
-  success: boolean;
-  weights: Record<string, number>;
-  cached: boolean;
-  error?: string;
-}
-
-// Type alias for the standard return pattern [value, error]
-type Result<T> = [T, Error | null];
-
-// Utility function for adding delay
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 // Version management functions
 async function getCurrentBlockNumber(): Promise<number> {
     if (!btApi) return 0;
@@ -123,7 +229,7 @@ async function getCurrentBlockNumber(): Promise<number> {
         const header = await btApi.rpc.chain.getHeader();
         return header.number.toNumber();
     } catch (err) {
-        console.error('Failed to get current block number:', err);
+        log.error('Failed to get current block number:', err);
         return 0;
     }
 }
@@ -150,7 +256,8 @@ async function pingServer(): Promise<[PingResponse | null, Error | null]> {
             return [null, new Error('Hotkey address not available')];
         }
 
-        const response = await fetch('https://77.creativebuilds.io/ping', {
+        const requestStart = Date.now();
+        const response = await fetch(`${SERVER_URL}/ping`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -162,38 +269,52 @@ async function pingServer(): Promise<[PingResponse | null, Error | null]> {
             })
         });
 
+        metrics.serverFetchDuration.observe((Date.now() - requestStart) / 1000, { endpoint: 'ping' });
+
         if (!response.ok) {
+            metrics.serverFetchFailures.inc({ endpoint: 'ping' });
             return [null, new Error(`Server responded with status ${response.status}: ${response.statusText}`)];
         }
 
         const data = await response.json() as PingResponse;
         return [data, null];
     } catch (err) {
+        metrics.serverFetchFailures.inc({ endpoint: 'ping' });
         return [null, err instanceof Error ? err : new Error(String(err))];
     }
 }
 
-async function loadVersionWarning(): Promise<VersionWarning | null> {
+async function loadVersionWarning(file = VERSION_WARNING_FILE): Promise<VersionWarning | null> {
     try {
-        const data = await fs.readFile(VERSION_WARNING_FILE, 'utf-8');
+        const data = await fs.readFile(file, 'utf-8');
         return JSON.parse(data) as VersionWarning;
     } catch {
         return null;
     }
 }
 
-async function saveVersionWarning(warning: VersionWarning): Promise<void> {
+async function saveVersionWarning(warning: VersionWarning, file = VERSION_WARNING_FILE): Promise<void> {
     try {
-        await fs.writeFile(VERSION_WARNING_FILE, JSON.stringify(warning, null, 2));
+        await fs.writeFile(file, JSON.stringify(warning, null, 2));
     } catch (err) {
-        console.error('Failed to save version warning:', err);
+        log.error('Failed to save version warning:', err);
+    }
+}
+
+// Clear the warning once the versions are compatible again
+async function clearVersionWarning(file: string): Promise<void> {
+    try {
+        await fs.unlink(file);
+    } catch {
+        // File doesn't exist, which is fine
     }
 }
 
 async function checkVersionCompatibility(): Promise<[boolean, Error | null]> {
     const [pingResponse, pingErr] = await pingServer();
+    metrics.versionCompatible.set(pingResponse?.success ? (pingResponse.versionCompatible ? 1 : 0) : -1);
     if (pingErr) {
-        console.error('Failed to ping server:', pingErr);
+        log.error('Failed to ping server:', pingErr);
         return [false, pingErr];
     }
 
@@ -206,193 +327,338 @@ async function checkVersionCompatibility(): Promise<[boolean, Error | null]> {
     }
 
     if (pingResponse.versionCompatible) {
-        // Clear any existing warning file if versions are now compatible
-        try {
-            await fs.unlink(VERSION_WARNING_FILE);
-        } catch {
-            // File doesn't exist, which is fine
-        }
+        await clearVersionWarning(VERSION_WARNING_FILE);
+        return [true, null];
+    }
+
+    return [false, await handleIncompatibleVersion('server', pingResponse.serverVersion, pingResponse.clientVersion)];
+}
+
+/**
+ * Compare the subnet's weightsVersionKey with the client's key. A higher
+ * required key starts the same countdown as an incompatible server version,
+ * and weights are not submitted until it clears.
+ */
+async function checkChainVersionKey(): Promise<[boolean, Error | null]> {
+    if (!btApi) return [false, new Error('Bittensor API not initialized')];
+    const [required, keyErr] = await fetchWeightsVersionKey(btApi, NETUID);
+    if (keyErr) {
+        log.error('Failed to read weightsVersionKey:', keyErr);
+        return [false, keyErr];
+    }
+    chainVersionKey = checkVersionKey(required, CLIENT_VERSION_KEY);
+    if (chainVersionKey.compatible) {
+        await clearVersionWarning(CHAIN_VERSION_WARNING_FILE);
         return [true, null];
     }
+    return [false, await handleIncompatibleVersion('chain', chainVersionKey.requiredVersion, CLIENT_VERSION)];
+}
 
-    // Version is incompatible
+/**
+ * Start or continue the 12h countdown for a version `source` reports as
+ * incompatible: record it in the source's warning file, announce it, attempt the
+ * auto-update and shut down once the countdown runs out.
+ */
+async function handleIncompatibleVersion(source: VersionSource, requiredVersion: string, clientVersion: string): Promise<Error> {
+    const file = source === 'server' ? VERSION_WARNING_FILE : CHAIN_VERSION_WARNING_FILE;
+    // The chain's requirement is a version key; name it next to the version it decodes to
+    const label = source === 'server' ? 'Server' : `Chain (weightsVersionKey ${chainVersionKey?.required})`;
     const now = Date.now();
-    const existingWarning = await loadVersionWarning();
-    
+    const existingWarning = await loadVersionWarning(file);
+
     if (!existingWarning) {
         // First time seeing this version incompatibility
         const newWarning: VersionWarning = {
             firstWarningTime: now,
             lastWarningTime: now,
-            serverVersion: pingResponse.serverVersion,
-            clientVersion: pingResponse.clientVersion,
+            serverVersion: requiredVersion,
+            clientVersion,
             warningCount: 1
         };
-        await saveVersionWarning(newWarning);
-        
-        const errorMsg = `Version incompatibility detected! Server version: ${pingResponse.serverVersion}, Client version: ${pingResponse.clientVersion}`;
-        console.error(errorMsg);
-        
+        await saveVersionWarning(newWarning, file);
+
+        const errorMsg = `Version incompatibility detected! ${label} version: ${requiredVersion}, Client version: ${clientVersion}`;
+        log.error(errorMsg);
+        await alertVersionCountdown(source, newWarning, VERSION_CHECK_TIMEOUT_MS);
+
         if (AUTO_UPDATE_ENABLED) {
-            console.log('Auto-update enabled. Attempting to update...');
-            await attemptAutoUpdate();
+            log.info('Auto-update enabled. Attempting to update...');
+            await attemptAutoUpdate(requiredVersion);
         } else {
-            console.error('Auto-update disabled. Please update manually or set AUTO_UPDATE_ENABLED=true');
+            log.error('Auto-update disabled. Please update manually or set AUTO_UPDATE_ENABLED=true');
         }
-        
-        return [false, new Error(errorMsg)];
+
+        return new Error(errorMsg);
     }
 
     // Update existing warning
     existingWarning.lastWarningTime = now;
     existingWarning.warningCount++;
-    existingWarning.serverVersion = pingResponse.serverVersion;
-    existingWarning.clientVersion = pingResponse.clientVersion;
-    await saveVersionWarning(existingWarning);
+    existingWarning.serverVersion = requiredVersion;
+    existingWarning.clientVersion = clientVersion;
+    await saveVersionWarning(existingWarning, file);
 
     const timeSinceFirstWarning = now - existingWarning.firstWarningTime;
-    
+
     if (timeSinceFirstWarning >= VERSION_CHECK_TIMEOUT_MS) {
-        const errorMsg = `Version incompatibility timeout reached (12h). Shutting down validator. Server: ${pingResponse.serverVersion}, Client: ${pingResponse.clientVersion}`;
-        console.error(errorMsg);
-        return [false, new Error(errorMsg)];
+        const errorMsg = `Version incompatibility timeout reached (12h). Shutting down validator. ${label}: ${requiredVersion}, Client: ${clientVersion}`;
+        log.error(errorMsg);
+        await alerter.send({
+            event: 'version_timeout',
+            severity: 'critical',
+            title: 'Version incompatibility timeout reached',
+            message: errorMsg,
+            details: { source, serverVersion: requiredVersion, clientVersion },
+        });
+        if (!SMOKE_TEST) await lifecycle.shutdown(EXIT_CODE_VERSION_TIMEOUT, errorMsg);
+        return new Error(errorMsg);
     }
 
-    const errorMsg = `Version incompatibility detected! Server: ${pingResponse.serverVersion}, Client: ${pingResponse.clientVersion}. Time remaining: ${Math.round((VERSION_CHECK_TIMEOUT_MS - timeSinceFirstWarning) / (60 * 60 * 1000))}h`;
-    console.error(errorMsg);
-    
+    const errorMsg = `Version incompatibility detected! ${label}: ${requiredVersion}, Client: ${clientVersion}. Time remaining: ${Math.round((VERSION_CHECK_TIMEOUT_MS - timeSinceFirstWarning) / (60 * 60 * 1000))}h`;
+    log.error(errorMsg);
+    await alertVersionCountdown(source, existingWarning, VERSION_CHECK_TIMEOUT_MS - timeSinceFirstWarning);
+
     if (AUTO_UPDATE_ENABLED) {
-        console.log('Auto-update enabled. Attempting to update...');
-        await attemptAutoUpdate();
+        log.info('Auto-update enabled. Attempting to update...');
+        await attemptAutoUpdate(requiredVersion);
     }
-    
-    return [false, new Error(errorMsg)];
+
+    return new Error(errorMsg);
 }
 
-async function attemptAutoUpdate(): Promise<void> {
-    try {
-        console.log('Attempting auto-update via git pull...');
-        
-        // Get current directory
-        const currentDir = process.cwd();
-        
-        // Check if we're in a git repository
-        try {
-            execSync('git status', { cwd: currentDir, stdio: 'pipe' });
-        } catch {
-            console.error('Not in a git repository, cannot auto-update');
-            return;
-        }
-        
-        // Fetch latest changes
-        execSync('git fetch origin', { cwd: currentDir, stdio: 'pipe' });
-        
-        // Get current branch
-        const currentBranch = execSync('git branch --show-current', { cwd: currentDir, encoding: 'utf8' }).trim();
-        
-        // Pull latest changes
-        execSync(`git pull origin ${currentBranch}`, { cwd: currentDir, stdio: 'pipe' });
-        
-        // Install dependencies
-        console.log('Installing updated dependencies...');
-        execSync('bun install', { cwd: currentDir, stdio: 'pipe' });
-        
-        console.log('Auto-update completed successfully. Restarting validator...');
-        
-        // Restart the process
-        process.exit(0);
-    } catch (err) {
-        console.error('Auto-update failed:', err);
+// Announce the version timeout once per milestone (12h, 6h, 3h, 1h left)
+async function alertVersionCountdown(source: VersionSource, warning: VersionWarning, remainingMs: number): Promise<void> {
+    const hoursLeft = remainingMs / (60 * 60 * 1000);
+    const milestone = VERSION_ALERT_MILESTONES_H.filter(h => h >= hoursLeft).pop() ?? VERSION_ALERT_MILESTONES_H[0];
+    const problem = source === 'server'
+        ? `Server version ${warning.serverVersion} is incompatible with client ${warning.clientVersion}`
+        : `The subnet's weightsVersionKey requires version ${warning.serverVersion}, client is ${warning.clientVersion}`;
+    await alerter.send({
+        event: 'version_incompatible',
+        severity: milestone <= 1 ? 'critical' : 'warning',
+        title: `Version incompatible, shutdown in ~${Math.max(1, Math.round(hoursLeft))}h`,
+        message: `${problem}. Update before the ${Math.round(VERSION_CHECK_TIMEOUT_MS / (60 * 60 * 1000))}h timeout${AUTO_UPDATE_ENABLED ? '' : ' (auto-update disabled)'}.`,
+        details: { source, serverVersion: warning.serverVersion, clientVersion: warning.clientVersion, warningCount: warning.warningCount },
+        dedupKey: `version_incompatible:${source}:${warning.serverVersion}:${milestone}`,
+        dedupWindowMs: VERSION_CHECK_TIMEOUT_MS,
+    });
+}
+
+async function attemptAutoUpdate(serverVersion: string): Promise<void> {
+    if (SMOKE_TEST) return;
+    if (simulation) {
+        log.notify(`Simulation: not updating to ${serverVersion}`);
+        return;
+    }
+    // A shutdown during the update aborts the running command and waits for the rollback
+    const controller = new AbortController();
+    const [update, updateErr] = await lifecycle.track('auto-update', applyUpdate({
+        repoDir: path.join(__dirname, '..'),
+        stateFile: UPDATE_STATE_FILE,
+        currentVersion: CLIENT_VERSION,
+        targetVersion: serverVersion,
+        policy: AUTO_UPDATE_POLICY,
+        tagPrefix: AUTO_UPDATE_TAG_PREFIX,
+        requireSignedTag: AUTO_UPDATE_REQUIRE_SIGNED_TAG,
+        commandTimeoutMs: 10 * 60 * 1000,
+        signal: controller.signal,
+    }), () => controller.abort());
+    if (updateErr || !update) {
+        log.error('Auto-update failed:', updateErr);
+        return;
+    }
+
+    log.notify(`Auto-update to ${update.tag} completed successfully. Restarting validator...`);
+    if (!process.env.SN77_SUPERVISED) {
+        log.notify('Not running under validator/supervisor.ts; relying on the process manager to restart');
     }
+    await lifecycle.shutdown(EXIT_CODE_RESTART, `Auto-updated ${CLIENT_VERSION} -> ${update.toVersion}`);
 }
 
 // global bittensor vars & initializer (placed after RAO_PER_TAO const)
-const NETUID = 77
+const NETUID = config.netuid;
+const SERVER_URL = simulation ? SIMULATED_SERVER_URL : config.serverUrl;
+const PENDING_COMMIT_FILE = path.join(logDir, 'pending-commit.json');
+const STATE_FILE = path.join(logDir, 'validator-state.json');
+const METRICS_PORT = config.metrics.port; // 0 disables the metrics/health server
+const METRICS_HOST = config.metrics.host;
+const STATE_MAX_AGE_MS = config.validator.stateMaxAgeMs; // discard saved EMA older than this
+
+interface SetWeightsReceipt {
+  weights: Record<string, number>;
+  txHash: string | null;
+  blockNumber: number | null;
+  // null in TEST_MODE
+  tx: TxReceipt | null;
+}
 let btApi: ApiPromise | null = null;
+const connectionManager = simulation?.connectionManager ?? createConnectionManager({ endpoints: resolveEndpoints(config.subtensor.network, config.subtensor.wsUrl) });
+const WS_HEALTH_CHECK_INTERVAL_MS = config.subtensor.healthCheckIntervalMs; // how often endpoints are probed
 let signer: ReturnType<Keyring['addFromUri']> | null = null;
+// Extrinsics follow transactions.waitFor; every receipt is appended to logs/transactions.jsonl
+const txManager = createTxManager({
+    api: () => btApi,
+    signer: () => signer,
+    ...config.transactions,
+    receiptLog: path.join(logDir, 'transactions.jsonl'),
+    track: (name, promise) => lifecycle.track(name, promise),
+    isShuttingDown: () => lifecycle.isShuttingDown(),
+});
+let lastTxReceipt: TxReceipt | null = null;
+
+// how long /weights responses are reused; simulated steps change the weights every iteration
+const CACHE_DURATION_MS = simulation ? 0 : config.validator.cacheDurationMs;
 
-// Cache for weights data
-interface CachedWeights {
-  data: Record<string, number>;
-  timestamp: number;
+// ----------------------
+//  Weight Sources
+// ----------------------
+// Comma-separated http:<url>, file:<path> and local[:<url>] sources, combined per UID
+// (a simulation only serves the simulated server)
+const WEIGHT_SOURCES = (!simulation && config.weightSources.sources) || `http:${SERVER_URL}`;
+const WEIGHT_CONSENSUS: ConsensusMode = config.weightSources.consensus;
+const [weightSources, sourcesErr] = parseWeightSources(WEIGHT_SOURCES, {
+    baseUrl: SERVER_URL,
+    cacheMs: CACHE_DURATION_MS,
+    signature: { policy: WEIGHTS_SIGNATURE_POLICY, publicKey: WEIGHTS_SIGNER_KEY, maxAgeMs: WEIGHTS_MAX_AGE_MS },
+});
+if (sourcesErr) {
+    log.error(`Invalid weightSources.sources: ${sourcesErr.message}`);
+    process.exit(EXIT_CODE_CONFIG_INVALID);
+}
+// Sources that must respond (and, in quorum mode, agree on a UID); defaults to a majority
+const WEIGHT_SOURCE_QUORUM = config.weightSources.quorum ?? Math.floor(weightSources.length / 2) + 1;
+if (WEIGHT_SOURCE_QUORUM > weightSources.length) {
+    log.error(`Invalid weightSources.quorum ${WEIGHT_SOURCE_QUORUM}, expected 1..${weightSources.length}`);
+    process.exit(EXIT_CODE_CONFIG_INVALID);
 }
 
-let cachedWeights: CachedWeights | null = null;
-const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes in milliseconds
+// ----------------------
+//  Weight Snapshots
+// ----------------------
+// Combined source weights are recorded every iteration for scripts/backtest.ts
+const WEIGHT_SNAPSHOTS = config.snapshots.enabled;
+const SNAPSHOT_DIR = path.join(logDir, 'snapshots');
+const SNAPSHOT_RETENTION_MS = config.snapshots.retentionDays * 24 * 60 * 60 * 1000;
+const SNAPSHOT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// ----------------------
+//  Audit Trail
+// ----------------------
+// Every iteration is recorded in SQLite for scripts/history.ts
+const AUDIT_TRAIL_ENABLED = config.auditTrail.enabled;
+const AUDIT_TRAIL_FILE = config.auditTrail.file || path.join(logDir, 'audit.sqlite');
+const AUDIT_TRAIL_RETENTION_MS = config.auditTrail.retentionDays * 24 * 60 * 60 * 1000;
+const AUDIT_TRAIL_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
 
-interface RegistryMapResponse {
-  success: boolean;
-  miners: Array<{ hotkeyAddress: string, ethereumAddress: string | null }>;
-  totalMiners: number;
-  linkedMiners: number;
-  error?: string;
+// ----------------------
+//  Alerting
+// ----------------------
+// Comma-separated webhook URLs, each optionally prefixed with its format: slack:<url>, discord:<url> (default json)
+const ALERT_WEBHOOKS = config.alerts.webhooks;
+const ALERT_DEDUP_WINDOW_MS = config.alerts.dedupWindowMs; // minimum interval between identical alerts
+const ALERT_MAX_PER_HOUR = config.alerts.maxPerHour; // critical alerts are never rate limited
+// Alert when this many WS disconnects happen within ALERT_WS_STORM_WINDOW_MS
+const ALERT_WS_STORM_THRESHOLD = config.alerts.wsStormThreshold;
+const ALERT_WS_STORM_WINDOW_MS = config.alerts.wsStormWindowMs;
+// Hours before the version timeout at which the countdown is re-announced
+const VERSION_ALERT_MILESTONES_H = [12, 6, 3, 1];
+const [alertTargets, alertTargetsErr] = parseAlertTargets(ALERT_WEBHOOKS);
+if (alertTargetsErr) {
+    log.error(`Invalid alerts.webhooks: ${alertTargetsErr.message}`);
+    process.exit(EXIT_CODE_CONFIG_INVALID);
 }
+const alerter = createAlerter({
+    targets: alertTargets,
+    source: () => `sn77 validator ${CLIENT_VERSION}${signer ? ` (${signer.address})` : ''}`,
+    dedupWindowMs: ALERT_DEDUP_WINDOW_MS,
+    maxPerHour: ALERT_MAX_PER_HOUR,
+});
+const wsDisconnectStorm = createStormDetector(ALERT_WS_STORM_THRESHOLD, ALERT_WS_STORM_WINDOW_MS);
+
 
-interface PingResponse {
-  success: boolean;
-  message: string;
-  serverVersion: string;
-  clientVersion: string;
-  versionCompatible: boolean;
-  error?: string;
+// ----------------------
+//  Lifecycle
+// ----------------------
+// Time a shutdown waits for a pending extrinsic and the shutdown hooks
+const SHUTDOWN_TIMEOUT_MS = config.validator.shutdownTimeoutMs;
+const lifecycle = createLifecycle({ deadlineMs: SHUTDOWN_TIMEOUT_MS });
+// Report why the validator stops
+lifecycle.addShutdownHook('alert', ({ code, reason }) => alerter.send({
+    event: 'shutdown',
+    severity: code === 0 || code === EXIT_CODE_RESTART ? 'info' : 'critical',
+    title: code === EXIT_CODE_RESTART ? 'Validator restarting' : 'Validator shutting down',
+    message: reason,
+    details: { exitCode: code },
+}));
+lifecycle.addShutdownHook('subtensor', () => connectionManager.close());
+if (simulation) {
+    lifecycle.addShutdownHook('simulation', async () => {
+        const reportFile = path.join(logDir, 'simulation-report.json');
+        const reportErr = await simulation.writeReport(reportFile);
+        if (reportErr) log.error('Failed to write simulation report:', reportErr);
+        const { steps, finalBlock, extrinsics } = simulation.report();
+        const failed = extrinsics.filter(x => x.error).length;
+        log.notify(`Simulation ran ${steps} steps up to block ${finalBlock}: ${extrinsics.length - failed} extrinsics succeeded, ${failed} failed. Report: ${reportFile}`);
+    });
 }
 
-interface VersionWarning {
-  firstWarningTime: number;
-  lastWarningTime: number;
-  serverVersion: string;
-  clientVersion: string;
-  warningCount: number;
+// Load the hotkey the validator signs with; a failure is a configuration error
+async function loadValidatorKey(): Promise<Error | null> {
+    if (signer) return null; // already loaded
+    const keyring = new Keyring({ type: 'sr25519' });
+    // Simulations always sign with the scenario's development key
+    const [key, keyErr] = await loadSigningKey(keyring, simulation ? {
+        walletName: '', walletHotkey: '', walletPath: '', keystore: '', passwordFile: '', uri: simulation.validatorUri,
+    } : {
+        walletName: config.wallet.name,
+        walletHotkey: config.wallet.hotkey,
+        walletPath: config.wallet.path,
+        keystore: config.wallet.keystore,
+        passwordFile: config.wallet.passwordFile,
+        uri: config.keys.validatorHotkeyUri,
+    });
+    if (keyErr || !key) return keyErr ?? new Error('Failed to load the validator key');
+    signer = key.pair;
+    log.notify(`Signing as ${signer.address} from ${simulation ? `scenario key ${simulation.validatorUri}` : key.description}`);
+    return null;
 }
 
 async function initializeBittensor(): Promise<Error | null> {
-    async function attemptReconnect(wsUrl: string): Promise<void> {
-        let delayMs = 1000; // start with 1s
-        while (true) {
-            try {
-                userLog(`Attempting Bittensor WS reconnection...`);
-                const newProvider = new WsProvider(wsUrl);
-                const newApi = await ApiPromise.create({ provider: newProvider });
-                await newApi.isReady;
-
-                btApi = newApi;
-                userLog(`Reconnected to Bittensor WS`);
-                // re-attach disconnect handler
-                newProvider.on('disconnected', () => {
-                    userLog('Bittensor WS disconnected');
-                    void attemptReconnect(wsUrl);
-                });
-                break;
-            } catch (reErr) {
-                console.error('Reconnection attempt failed:', reErr);
-                await delay(delayMs);
-                delayMs = Math.min(delayMs * 2, 30000); // cap at 30s
-            }
-        }
-    }
-
     try {
         if (btApi) return null; // already initialized
-        const wsUrl = 'wss://entrypoint-finney.opentensor.ai:443';
-        const provider = new WsProvider(wsUrl);
-        provider.on('disconnected', () => {
-            userLog('Bittensor WS disconnected');
-            void attemptReconnect(wsUrl);
+        connectionManager.onConnected((api, url, isReconnect) => {
+            btApi = api;
+            if (isReconnect) {
+                metrics.wsReconnects.inc();
+                log.notify(`Reconnected to Bittensor WS (${url})`);
+            }
+        });
+        connectionManager.onDisconnected(url => {
+            log.notify('Bittensor WS disconnected');
+            metrics.wsDisconnects.inc();
+            if (wsDisconnectStorm.record()) {
+                void alerter.send({
+                    event: 'ws_disconnect_storm',
+                    severity: 'warning',
+                    title: 'Bittensor WS disconnect storm',
+                    message: `${wsDisconnectStorm.count()} websocket disconnects within ${Math.round(ALERT_WS_STORM_WINDOW_MS / 60000)} minutes`,
+                    details: { lastEndpoint: url },
+                });
+            }
         });
 
-        btApi = await ApiPromise.create({ provider });
-        await btApi.isReady;
+        btApi = await connectionManager.getApi();
+        connectionManager.startHealthChecks(WS_HEALTH_CHECK_INTERVAL_MS);
 
-        const hotkeyUri = process.env.VALIDATOR_HOTKEY_URI;
-        if (!hotkeyUri) return new Error('VALIDATOR_HOTKEY_URI env var not set');
-        
-        const keyring = new Keyring({ type: 'sr25519' });
-        
-        try {
-            signer = keyring.addFromUri(hotkeyUri);
-        } catch (keyErr) {
-            console.error(`Failed to create signer from URI: ${keyErr}`);
-            return new Error(`Invalid VALIDATOR_HOTKEY_URI format: ${keyErr instanceof Error ? keyErr.message : String(keyErr)}`);
+        if (!signer) return new Error('Signer not initialized');
+
+        // The watchdog pauses weight submission instead of failing, and resumes once the hotkey is eligible again
+        if (WATCHDOG_ENABLED) {
+            const check = await watchdog.check(btApi, signer.address);
+            const { standing } = check.status;
+            if (standing) log.info(`Hotkey standing: UID ${standing.uid ?? 'none'} on netuid ${NETUID}, permit ${standing.permit ?? 'n/a'}, stake weight ${standing.stake ?? 'n/a'} (threshold ${standing.stakeThreshold ?? 'n/a'})`);
+            await handleWatchdogCheck(check);
+            return null;
         }
 
         // Verify neuron registration if storage available
@@ -403,7 +669,7 @@ async function initializeBittensor(): Promise<Error | null> {
             // @ts-ignore
             const uidCodec = await btApi.query.subtensorModule.keyToUid(NETUID, signer.address);
             const uidNum = (uidCodec as any)?.toNumber ? (uidCodec as any).toNumber() : 0;
-            console.log(`Hotkey registration check: UID ${uidNum} on netuid ${NETUID}`);
+            log.info(`Hotkey registration check: UID ${uidNum} on netuid ${NETUID}`);
             if (uidNum === 0) return new Error('Hotkey not registered on subnet');
         }
         return null;
@@ -412,11 +678,47 @@ async function initializeBittensor(): Promise<Error | null> {
     }
 }
 
+// Log, record and announce a watchdog check; alerts are only sent when submission pauses or resumes
+async function handleWatchdogCheck({ status, transition }: WatchdogCheck): Promise<void> {
+    if (status.standing?.stake != null) metrics.validatorStake.set(status.standing.stake);
+    for (const reason of ['deregistered', 'no_validator_permit', 'insufficient_stake'] as const) {
+        metrics.weightsPaused.set(status.reasons.some(r => r.reason === reason) ? 1 : 0, { reason });
+    }
+    const summary = status.reasons.map(r => r.message).join('; ');
+    if (transition === 'paused') {
+        log.error(`WATCHDOG: pausing weight submission: ${summary}`);
+        const deregistered = status.reasons.some(r => r.reason === 'deregistered');
+        await alerter.send({
+            event: deregistered ? 'deregistered' : 'weights_paused',
+            severity: 'critical',
+            title: deregistered ? 'Validator hotkey deregistered' : 'Weight submission paused',
+            message: `${summary}; weights are not set until this clears`,
+            details: { netuid: NETUID, uid: status.standing?.uid ?? null, stake: status.standing?.stake ?? null },
+        });
+    } else if (transition === 'resumed') {
+        log.notify(`WATCHDOG: resuming weight submission (UID ${status.standing?.uid}, stake ${status.standing?.stake ?? 'n/a'})`);
+        await alerter.send({
+            event: 'weights_resumed',
+            severity: 'info',
+            title: 'Weight submission resumed',
+            message: `Hotkey ${signer?.address} is eligible to set weights again (UID ${status.standing?.uid})`,
+            details: { netuid: NETUID, uid: status.standing?.uid ?? null, stake: status.standing?.stake ?? null },
+        });
+    }
+}
+
 async function main(): Promise<void> {
+    lifecycle.installSignalHandlers();
+    const keyErr = await loadValidatorKey();
+    if (keyErr) {
+        log.error('Failed to load the validator key:', keyErr);
+        await lifecycle.shutdown(EXIT_CODE_CONFIG_INVALID, `Failed to load the validator key: ${keyErr.message}`);
+        return;
+    }
     const bittensorErr = await initializeBittensor();
     if (bittensorErr) {
-        console.error('Failed to initialize Bittensor:', bittensorErr);
-        process.exit(1);
+        log.error('Failed to initialize Bittensor:', bittensorErr);
+        await lifecycle.shutdown(EXIT_CODE_INIT_FAILED, `Failed to initialize Bittensor: ${bittensorErr.message}`);
         return;
     }
 
@@ -425,104 +727,351 @@ async function main(): Promise<void> {
     if (existingWarning) {
         const timeSinceFirstWarning = Date.now() - existingWarning.firstWarningTime;
         if (timeSinceFirstWarning >= VERSION_CHECK_TIMEOUT_MS) {
-            console.error('Version incompatibility timeout reached on startup. Shutting down validator.');
-            process.exit(1);
+            log.error('Version incompatibility timeout reached on startup. Shutting down validator.');
+            await lifecycle.shutdown(EXIT_CODE_VERSION_TIMEOUT, `Version incompatibility timeout reached (server ${existingWarning.serverVersion}, client ${existingWarning.clientVersion})`);
             return;
         }
         
         // Check version compatibility immediately
+        // (an incompatible version triggers the auto-update from inside the check)
         const [isCompatible, versionErr] = await checkVersionCompatibility();
         if (versionErr) {
-            console.error('Version check failed on startup:', versionErr);
-            if (AUTO_UPDATE_ENABLED) {
-                console.log('Auto-update enabled. Attempting to update...');
-                await attemptAutoUpdate();
-            }
+            log.error('Version check failed on startup:', versionErr);
         }
     }
+    // The weightsVersionKey countdown is re-checked on every start (and ends it once timed out)
+    const [, chainVersionErr] = await checkChainVersionKey();
+    if (chainVersionErr) log.error('weightsVersionKey check failed on startup:', chainVersionErr);
 
     // ---------------------------
     //  PERIODIC LOOP W/ EMA LOGIC
     // ---------------------------
-    const LOOP_DELAY_MS = Number(process.env.LOOP_DELAY_MS || 300000); // default 5 minutes
-    const SET_INTERVAL_MS = Number(process.env.SET_INTERVAL_MS || 101 * 12 * 1000); // 101 Blocks
-    const EMA_ALPHA = Number(process.env.EMA_ALPHA || 0.2);
-    const MAX_CONSECUTIVE_ERRORS = 5;
+    // Reloadable through the control API
+    let LOOP_DELAY_MS = config.validator.loopDelayMs;
+    let SET_INTERVAL_MS = config.validator.setIntervalMs; // only used when the rate limit cannot be read
+    let EMA_ALPHA = config.validator.emaAlpha;
+    let MAX_CONSECUTIVE_ERRORS = config.validator.maxConsecutiveErrors;
 
     let emaWeights: Record<string, number> = {};
+    let emaHotkeys: Record<string, string> = {};
     let lastSet = 0;
+    let lastSetBlock = 0;
+    let lastTxHash: string | null = null;
     let lastVersionCheck = 0;
+    let lastSnapshotPrune = 0;
+
+    // Restore EMA state saved by a previous run
+    const [savedState, stateErr] = await loadValidatorState(STATE_FILE);
+    if (stateErr) {
+        log.error('Failed to load validator state, starting fresh:', stateErr);
+    } else if (savedState) {
+        const rejectReason = getStateRejectReason(savedState, {
+            netuid: NETUID,
+            validatorHotkey: signer!.address,
+            maxAgeMs: STATE_MAX_AGE_MS,
+            now: Date.now(),
+        });
+        if (rejectReason) {
+            log.notify(`Ignoring saved validator state: ${rejectReason}`);
+        } else {
+            for (const [uid, entry] of Object.entries(savedState.emaWeights)) {
+                emaWeights[uid] = entry.weight;
+                emaHotkeys[uid] = entry.hotkey;
+            }
+            lastSet = savedState.lastSetTime;
+            lastSetBlock = savedState.lastSetBlock;
+            lastTxHash = savedState.lastTxHash;
+            lastVersionCheck = savedState.lastVersionCheck;
+            log.notify(`Restored EMA for ${Object.keys(emaWeights).length} UIDs (last set at block ${lastSetBlock || 'n/a'})`);
+            anomalyGuard.seed(emaWeights);
+        }
+    }
+
+    const persistState = async (): Promise<void> => {
+        const state: ValidatorState = {
+            version: STATE_VERSION,
+            netuid: NETUID,
+            validatorHotkey: signer!.address,
+            savedAt: Date.now(),
+            emaWeights: Object.fromEntries(Object.entries(emaWeights).map(([uid, weight]) => [uid, { hotkey: emaHotkeys[uid] ?? '', weight }])),
+            lastSetTime: lastSet,
+            lastSetBlock,
+            lastTxHash,
+            lastVersionCheck,
+        };
+        const saveErr = await saveValidatorState(STATE_FILE, state);
+        if (saveErr) log.error('Failed to save validator state:', saveErr);
+    };
+    lifecycle.addShutdownHook('state', persistState);
+
+    let auditTrail: AuditTrail | null = null;
+    let lastAuditTrailPrune = 0;
+    if (AUDIT_TRAIL_ENABLED) {
+        const [opened, trailErr] = openAuditTrail(AUDIT_TRAIL_FILE);
+        if (trailErr || !opened) {
+            log.error('Audit trail disabled:', trailErr);
+        } else {
+            auditTrail = opened;
+            lifecycle.addShutdownHook('auditTrail', async () => opened.close());
+            log.info(`Recording every iteration in ${AUDIT_TRAIL_FILE}`);
+        }
+    }
     let iteration = 0;
     let consecutiveErrors = 0;
+    let uidMismatchCount = 0;
+    let lastIterationCompleted = Date.now();
+    let updateConfirmed = false;
+
+    metrics.consecutiveErrors.collect(() => consecutiveErrors);
+    metrics.secondsSinceLastSet.collect(() => lastSet > 0 ? (Date.now() - lastSet) / 1000 : NaN);
+    if (METRICS_PORT > 0) {
+        startMetricsServer(METRICS_PORT, METRICS_HOST, () => {
+            const secondsSinceLastIteration = (Date.now() - lastIterationCompleted) / 1000;
+            return {
+                // Unhealthy when the loop has stalled for three loop periods or is about to give up
+                healthy: secondsSinceLastIteration * 1000 < LOOP_DELAY_MS * 3 && consecutiveErrors < MAX_CONSECUTIVE_ERRORS - 1,
+                iteration,
+                consecutiveErrors,
+                secondsSinceLastIteration,
+                secondsSinceLastSet: lastSet > 0 ? (Date.now() - lastSet) / 1000 : null,
+                lastSetBlock,
+                testMode: TEST_MODE,
+                watchdog: WATCHDOG_ENABLED ? watchdog.status() : null,
+                lastTransaction: lastTxReceipt,
+            };
+        });
+        log.notify(`Metrics and health endpoint listening on http://${METRICS_HOST}:${METRICS_PORT}`);
+    }
 
-    const updateEma = (prev: Record<string, number>, curr: Record<string, number>): Record<string, number> => {
-        const keys = new Set([...Object.keys(prev), ...Object.keys(curr)]);
-        const next: Record<string, number> = {};
-        for (const k of keys) {
-            const prevVal = prev[k] ?? 0;
-            const currVal = curr[k] ?? 0;
-            
-            // Safety check for NaN or invalid values
-            const safePrev = isFinite(prevVal) ? prevVal : 0;
-            const safeCurr = isFinite(currVal) ? currVal : 0;
-            
-            next[k] = EMA_ALPHA * safeCurr + (1 - EMA_ALPHA) * safePrev;
-            
-            // Additional safety check on the result
-            if (!isFinite(next[k])) {
-                console.warn(`EMA calculation resulted in invalid value for key ${k}, setting to 0`);
-                next[k] = 0;
-            }
-        }
-        return next;
+    // Weight submission paused through the control API; lasts until resumed or restarted
+    // (asserted so the loop does not narrow it to null; only the control API sets it)
+    let operatorPause = null as { since: string; reason: string } | null;
+    // Control API requests waiting for a forced weight set; the next iteration serves them
+    let forceWaiters: Array<(result: ForcedSetResult) => void> = [];
+    // Ends the current wait early when a weight set is forced
+    let wakeUp: (() => void) | null = null;
+    const sleep = (ms: number) => new Promise<void>(resolve => {
+        const timeoutId = setTimeout(() => {
+            wakeUp = null;
+            resolve();
+        }, ms);
+        wakeUp = () => {
+            clearTimeout(timeoutId);
+            wakeUp = null;
+            resolve();
+        };
+    });
+
+    // Settings a config reload applies without a restart; every other change needs one
+    const RELOADABLE: Record<string, (next: Config) => void> = {
+        'logging.level': next => setLogLevel(next.logging.level),
+        'validator.loopDelayMs': next => { LOOP_DELAY_MS = next.validator.loopDelayMs; },
+        'validator.setIntervalMs': next => { SET_INTERVAL_MS = next.validator.setIntervalMs; },
+        'validator.emaAlpha': next => { EMA_ALPHA = next.validator.emaAlpha; },
+        'validator.maxConsecutiveErrors': next => { MAX_CONSECUTIVE_ERRORS = next.validator.maxConsecutiveErrors; },
+        'audit.mode': next => { AUDIT_MODE = next.audit.mode; },
+        'audit.tolerance': next => { AUDIT_TOLERANCE = next.audit.tolerance; },
+        'uidResolution.mismatchPolicy': next => { UID_MISMATCH_POLICY = next.uidResolution.mismatchPolicy; },
+        'weightDiff.threshold': next => { WEIGHT_DIFF_THRESHOLD = next.weightDiff.threshold; },
+        'weightDiff.maxSkipBlocks': next => { WEIGHT_DIFF_MAX_SKIP_BLOCKS = next.weightDiff.maxSkipBlocks; },
+    };
+    let activeConfig = config;
+
+    // Re-read the config file (with the startup environment and --set overrides) and apply the reloadable settings
+    const reloadConfig = async (): Promise<Result<unknown>> => {
+        const [reloaded, reloadErr] = loadConfig();
+        if (reloadErr || !reloaded) return [null, reloadErr ?? new Error('Failed to load configuration')];
+        const next = reloaded.config;
+        const applied = diffConfig(activeConfig, next).filter(key => RELOADABLE[key]);
+        for (const key of applied) RELOADABLE[key](next);
+        // Compared with the startup config, so a change stays listed until the restart
+        const restartRequired = diffConfig(config, next).filter(key => !RELOADABLE[key]);
+        activeConfig = next;
+        log.notify(`CONTROL: reloaded configuration${reloaded.file ? ` from ${reloaded.file}` : ''}: applied ${applied.join(', ') || 'nothing'}${restartRequired.length ? `; restart required for ${restartRequired.join(', ')}` : ''}`);
+        return [{ file: reloaded.file, applied, restartRequired }, null];
     };
 
-    // Helper to ensure each loop starts after exactly LOOP_DELAY_MS
-    const waitRemaining = async (startTime: number): Promise<Error | null> => {
-        let remaining = LOOP_DELAY_MS - (Date.now() - startTime);
+    const setOperatorPause = async (pause: { since: string; reason: string } | null): Promise<void> => {
+        operatorPause = pause;
+        metrics.weightsPaused.set(pause ? 1 : 0, { reason: 'operator' });
+        log.notify(pause ? `CONTROL: weight submission paused by operator: ${pause.reason}` : 'CONTROL: weight submission resumed by operator');
+        await alerter.send({
+            event: pause ? 'weights_paused' : 'weights_resumed',
+            severity: pause ? 'warning' : 'info',
+            title: pause ? 'Weight submission paused by operator' : 'Weight submission resumed by operator',
+            message: pause ? pause.reason : `Hotkey ${signer?.address} sets weights again`,
+            details: { netuid: NETUID },
+        });
+    };
+
+    if (CONTROL_PORT > 0 || CONTROL_SOCKET) {
+        const target = { port: CONTROL_PORT, socket: CONTROL_SOCKET };
+        const [token, tokenErr] = await ensureControlToken(CONTROL_TOKEN_FILE);
+        const [server, controlErr] = tokenErr ? [null, tokenErr] : await startControlServer({
+            ...target,
+            token,
+            handlers: {
+                status: () => ({
+                    iteration,
+                    consecutiveErrors,
+                    operatorPause,
+                    watchdog: WATCHDOG_ENABLED ? watchdog.status() : null,
+                    lastSetTime: lastSet > 0 ? new Date(lastSet).toISOString() : null,
+                    lastSetBlock,
+                    lastTxHash,
+                    lastTransaction: lastTxReceipt,
+                    testMode: TEST_MODE,
+                }),
+                state: () => ({
+                    emaWeights: Object.fromEntries(Object.entries(emaWeights).map(([uid, weight]) => [uid, { hotkey: emaHotkeys[uid] ?? '', weight }])),
+                    lastSetTime: lastSet > 0 ? new Date(lastSet).toISOString() : null,
+                    lastSetBlock,
+                    lastTxHash,
+                    lastVersionCheck: lastVersionCheck > 0 ? new Date(lastVersionCheck).toISOString() : null,
+                    sources: weightSources.map(source => ({ name: source.name, kind: source.kind, cache: source.cacheState?.() ?? null })),
+                }),
+                pause: async reason => {
+                    if (operatorPause) return [null, new Error(`Weight submission is already paused since ${operatorPause.since}`)];
+                    await setOperatorPause({ since: new Date().toISOString(), reason: reason || 'paused through the control API' });
+                    return [operatorPause, null];
+                },
+                resume: async () => {
+                    if (!operatorPause) return [null, new Error('Weight submission is not paused')];
+                    await setOperatorPause(null);
+                    return [{ resumed: true }, null];
+                },
+                setWeights: async () => {
+                    if (operatorPause) return [null, new Error(`Weight submission is paused since ${operatorPause.since}; resume it first`)];
+                    for (const source of weightSources) source.expireCache?.();
+                    const result = new Promise<ForcedSetResult>(resolve => forceWaiters.push(resolve));
+                    wakeUp?.();
+                    return [await result, null];
+                },
+                versionCheck: async () => {
+                    const [compatible, versionErr] = await checkVersionCompatibility();
+                    const [, chainVersionErr] = await checkChainVersionKey();
+                    lastVersionCheck = Date.now();
+                    return [{
+                        compatible,
+                        error: versionErr?.message ?? null,
+                        weightsVersionKey: chainVersionKey,
+                        weightsVersionKeyError: chainVersionErr?.message ?? null,
+                    }, null];
+                },
+                reloadConfig,
+            },
+        });
+        if (controlErr || !server) {
+            log.error('Control API not started:', controlErr);
+        } else {
+            metrics.weightsPaused.set(0, { reason: 'operator' });
+            lifecycle.addShutdownHook('control', async () => {
+                server.closeAllConnections();
+                await new Promise<void>(resolve => server.close(() => resolve()));
+            });
+            log.notify(`Control API listening on ${describeTarget(target)} (token ${CONTROL_TOKEN_FILE})`);
+        }
+    }
+
+    // Helper to ensure each loop starts after exactly LOOP_DELAY_MS (or earlier when a
+    // weight submission becomes allowed before that, or one is forced)
+    const waitRemaining = async (startTime: number, maxWaitMs = LOOP_DELAY_MS): Promise<Error | null> => {
+        // Simulated blocks advance per iteration, not with time
+        if (simulation || forceWaiters.length) return null;
+        let remaining = Math.min(LOOP_DELAY_MS, maxWaitMs) - (Date.now() - startTime);
         if (remaining <= 0) return null;
 
         if (!LOG_CONSOLE) {
             // Display dynamic countdown in seconds on the same console line
-            while (remaining > 0) {
+            while (remaining > 0 && !forceWaiters.length) {
                 const secs = Math.ceil(remaining / 1000);
                 process.stdout.write(`\rNext iteration in ${secs}s   `);
                 const step = Math.min(1000, remaining);
-                await delay(step);
+                await sleep(step);
                 remaining -= step;
             }
             process.stdout.write('\r\n'); // move to next line after countdown finishes
         } else {
-            await delay(remaining);
+            await sleep(remaining);
         }
         return null;
     };
 
-    while (true) {
+    while (!lifecycle.isShuttingDown()) {
+        // Forced weight sets requested before this iteration, answered when it ends
+        const forced = forceWaiters;
+        forceWaiters = [];
+        let forcedResult: Omit<ForcedSetResult, 'iteration'> = {
+            submitted: false,
+            message: 'Iteration ended before weights were set, see the validator log',
+            txHash: null,
+            blockNumber: null,
+        };
+        // Written to the audit trail when the iteration ends
+        let trail: IterationRecord | null = null;
         try {
             const startTime = Date.now();
-            userLog(`\nIteration ${++iteration} starting...`);
+            if (simulation && !simulation.advance()) {
+                await lifecycle.shutdown(EXIT_CODE_OK, `Simulation ${scenario!.name} finished`);
+                return;
+            }
+            log.notify(`\nIteration ${++iteration} starting...`);
+            metrics.iterations.inc();
+            if (forced.length) log.notify('CONTROL: weight set forced by operator');
+            trail = {
+                iteration,
+                startedAt: startTime,
+                finishedAt: 0,
+                netuid: NETUID,
+                hotkey: signer!.address,
+                version: CLIENT_VERSION,
+                outcome: 'skipped',
+                reason: '',
+                registryHash: null,
+                sourceWeights: {},
+                uidHotkeys: {},
+                combinedWeights: null,
+                emaWeights: null,
+                normalizedWeights: null,
+                submitted: null,
+                receipt: null,
+                anomaly: null,
+                errors: [],
+            };
 
-            // Fetch weights from the central server
-            const [hotkeyWeights, weightsErr] = await fetchWeightsFromServer();
-            if (weightsErr) {
-                console.error('Error fetching weights:', weightsErr);
-                consecutiveErrors++;
-                if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-                    console.error(`Too many consecutive errors (${consecutiveErrors}), exiting...`);
-                    process.exit(1);
-                    return;
-                }
+            // Fetch registry map to map hotkeys to UIDs
+            const [registryMap, registryErr] = await fetchRegistryMap();
+            if (registryErr) {
+                log.error('Error fetching registry map:', registryErr);
+                trail.errors.push(`Error fetching registry map: ${registryErr.message}`);
                 await waitRemaining(startTime);
                 continue;
             }
 
-            if (!hotkeyWeights) {
-                console.error('No weights data received from server');
+            if (!registryMap || !registryMap.miners) {
+                log.error('No registry map data received');
+                trail.errors.push('No registry map data received');
+                await waitRemaining(startTime);
+                continue;
+            }
+            trail.registryHash = hashRegistry(registryMap);
+
+            // Query every weight source
+            const sourceResults = await fetchAllSources(weightSources, { registry: registryMap });
+            for (const { source, error } of sourceResults) {
+                if (!error) continue;
+                log.error(`Error fetching weights from ${source.name}:`, error);
+                trail.errors.push(`Error fetching weights from ${source.name}: ${error.message}`);
+            }
+            const responding = sourceResults.filter(r => r.weights);
+            trail.sourceWeights = Object.fromEntries(responding.map(r => [r.source.name, r.weights!]));
+            if (responding.length < WEIGHT_SOURCE_QUORUM) {
+                log.error(`Only ${responding.length}/${weightSources.length} weight sources responded (quorum ${WEIGHT_SOURCE_QUORUM})`);
+                trail.errors.push(`Only ${responding.length}/${weightSources.length} weight sources responded (quorum ${WEIGHT_SOURCE_QUORUM})`);
                 consecutiveErrors++;
                 if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-                    console.error(`Too many consecutive errors (${consecutiveErrors}), exiting...`);
-                    process.exit(1);
+                    log.error(`Too many consecutive errors (${consecutiveErrors}), exiting...`);
+                    await lifecycle.shutdown(EXIT_CODE_TOO_MANY_ERRORS, `Too many consecutive errors (${consecutiveErrors}): weight sources below quorum`);
                     return;
                 }
                 await waitRemaining(startTime);
@@ -532,127 +1081,342 @@ async function main(): Promise<void> {
             // Reset error counter on successful iteration
             consecutiveErrors = 0;
 
-            // Fetch registry map to map hotkeys to UIDs
-            const [registryMap, registryErr] = await fetchRegistryMap();
-            if (registryErr) {
-                console.error('Error fetching registry map:', registryErr);
+            // Independently recompute the server weights from the raw inputs and compare
+            const serverResult = responding.find(r => r.source.kind === 'http');
+            if (AUDIT_MODE !== 'off' && serverResult?.weights) {
+                const [report, auditErr] = await auditServerWeights(serverResult.weights, registryMap, {
+                    baseUrl: SERVER_URL,
+                    tolerance: AUDIT_TOLERANCE,
+                    mode: AUDIT_MODE,
+                    logDir,
+                });
+                if (auditErr || !report) {
+                    log.error('Weight audit failed:', auditErr);
+                    if (AUDIT_MODE === 'enforce') {
+                        log.notify('AUDIT: unable to reproduce server weights, skipping this iteration');
+                        trail.errors.push(`Weight audit failed: ${auditErr?.message ?? 'no report'}`);
+                        await waitRemaining(startTime);
+                        continue;
+                    }
+                } else {
+                    metrics.auditL1Distance.set(report.l1Distance);
+                    log.notify(`AUDIT: L1 distance ${report.l1Distance.toFixed(4)} (tolerance ${AUDIT_TOLERANCE}), max diff ${report.maxAbsDiff.toFixed(4)}`);
+                    if (report.diverged) {
+                        log.warn('AUDIT: server weights diverge from local computation. Top divergences:', report.topDivergences);
+                        if (AUDIT_MODE === 'enforce') {
+                            log.notify('AUDIT: refusing to use diverging server weights, skipping this iteration');
+                            trail.errors.push(`Server weights diverge from the local computation (L1 ${report.l1Distance.toFixed(4)})`);
+                            await waitRemaining(startTime);
+                            continue;
+                        }
+                    }
+                }
+            }
+
+            // Resolve UIDs from chain storage and cross-check the server registry
+            if (!btApi) {
+                log.error('Bittensor API not available for UID resolution');
+                trail.errors.push('Bittensor API not available for UID resolution');
                 await waitRemaining(startTime);
                 continue;
             }
-
-            if (!registryMap || !registryMap.miners) {
-                console.error('No registry map data received');
+            const [resolution, resolveErr] = await uidResolver.resolve(btApi, registryMap);
+            if (resolveErr || !resolution) {
+                log.error('Error resolving UIDs from chain:', resolveErr);
+                trail.errors.push(`Error resolving UIDs from chain: ${resolveErr?.message ?? 'no data'}`);
                 await waitRemaining(startTime);
                 continue;
             }
-            
-            const hotkeyToUid: Record<string, number> = {};
-            registryMap.miners.forEach((miner, i) => {
-                hotkeyToUid[miner.hotkeyAddress] = i;
-            });
 
-            // Convert hotkey-based weights to UID-based weights
-            const uidWeights: Record<string, number> = {};
-            for (const [hotkey, weight] of Object.entries(hotkeyWeights)) {
-                const uid = hotkeyToUid[hotkey];
-                if (uid !== undefined) {
-                    uidWeights[uid.toString()] = weight;
-                } else {
-                    console.warn(`No UID found for hotkey ${hotkey} in registry map, skipping.`);
+            uidMismatchCount = resolution.mismatches.length;
+            metrics.uidMismatches.set(uidMismatchCount);
+            if (uidMismatchCount > 0) {
+                log.warn(`${uidMismatchCount} registry miners are not registered on chain or changed UID:`, resolution.mismatches.slice(0, 10));
+            }
+            const { hotkeyToUid } = resolution;
+            const validatorUid: number | undefined = hotkeyToUid[signer!.address];
+
+            // UIDs re-registered by a different hotkey start from a fresh EMA
+            const droppedUids = pruneRecycledUids(emaWeights, emaHotkeys, resolution.uidToHotkey);
+            if (droppedUids.length > 0) {
+                log.notify(`Reset EMA for ${droppedUids.length} recycled UIDs: ${droppedUids.join(', ')}`);
+            }
+
+            // Convert every source to UID-based weights and combine them per UID
+            const uidMaps = responding.map(result => {
+                const { weights, unmapped } = toUidWeights(result, hotkeyToUid);
+                for (const hotkey of unmapped) log.warn(`No on-chain UID found for hotkey ${hotkey} (${result.source.name}), skipping.`);
+                return weights;
+            });
+            const [uidWeights, combineErr] = combineWeights(uidMaps, { mode: WEIGHT_CONSENSUS, quorum: WEIGHT_SOURCE_QUORUM });
+            if (combineErr || !uidWeights) {
+                log.error('Failed to combine weight sources:', combineErr);
+                trail.errors.push(`Failed to combine weight sources: ${combineErr?.message ?? 'no data'}`);
+                await waitRemaining(startTime);
+                continue;
+            }
+            for (const uid of Object.keys(uidWeights)) {
+                const hotkey = resolution.uidToHotkey[Number(uid)];
+                if (hotkey) emaHotkeys[uid] = hotkey;
+            }
+            trail.combinedWeights = uidWeights;
+
+            log.notify(`Received weights for ${Object.keys(uidWeights).length} UIDs from ${responding.length}/${weightSources.length} sources.`);
+
+            if (WEIGHT_SNAPSHOTS) {
+                const snapshotErr = await writeWeightSnapshot(SNAPSHOT_DIR, uidWeights);
+                if (snapshotErr) log.warn('Failed to write weight snapshot:', snapshotErr);
+                if (Date.now() - lastSnapshotPrune >= SNAPSHOT_PRUNE_INTERVAL_MS) {
+                    const [removed, pruneErr] = await pruneWeightSnapshots(SNAPSHOT_DIR, SNAPSHOT_RETENTION_MS);
+                    if (pruneErr) log.warn('Failed to prune weight snapshots:', pruneErr);
+                    else if (removed > 0) log.info(`Pruned ${removed} weight snapshots older than ${config.snapshots.retentionDays} days`);
+                    lastSnapshotPrune = Date.now();
                 }
             }
 
-            userLog(`Received weights for ${Object.keys(uidWeights).length} UIDs from the server.`);
-            
-            // Update EMA weights (by uid)
-            emaWeights = updateEma(emaWeights, uidWeights);
+            // Compare with the recent history before the map can move the EMA
+            const anomaly = await anomalyGuard.evaluate(uidWeights);
+            if (anomaly.metrics) metrics.anomalyL1Distance.set(anomaly.metrics.l1Distance);
+            trail.anomaly = { action: anomaly.action, violations: anomaly.violations };
+            if (anomaly.violations.length) {
+                log.warn(`ANOMALY: ${anomaly.action} weights for ${Object.keys(uidWeights).length} UIDs: ${anomaly.violations.join('; ')}`);
+            }
+            if (anomaly.action === 'quarantined') {
+                metrics.weightsQuarantined.inc();
+                log.notify(`ANOMALY: keeping the previous EMA (${anomaly.consecutiveQuarantines} consecutive quarantines)`);
+                await alerter.send({
+                    event: 'weights_quarantined',
+                    severity: 'warning',
+                    title: 'Server weights quarantined',
+                    message: anomaly.violations.join('; '),
+                    details: { consecutiveQuarantines: anomaly.consecutiveQuarantines, uids: Object.keys(uidWeights).length },
+                });
+            } else {
+                if (anomaly.action === 'released') log.notify('ANOMALY: weight shift persisted, accepting it as the new baseline');
+                // Update EMA weights (by uid)
+                emaWeights = updateEma(emaWeights, uidWeights, EMA_ALPHA);
+            }
+            trail.emaWeights = emaWeights;
+            trail.uidHotkeys = { ...emaHotkeys };
 
             // Periodic version compatibility check
             const timeSinceLastVersionCheck = Date.now() - lastVersionCheck;
             if (timeSinceLastVersionCheck >= PING_INTERVAL_MS) {
-                userLog('Performing periodic version compatibility check...');
+                log.notify('Performing periodic version compatibility check...');
                 const [isCompatible, versionErr] = await checkVersionCompatibility();
                 if (versionErr) {
-                    console.error('Version compatibility check failed:', versionErr);
+                    log.error('Version compatibility check failed:', versionErr);
                     // Don't exit immediately, let the timeout mechanism handle it
                 } else {
-                    userLog('Version compatibility check passed');
+                    log.notify('Version compatibility check passed');
                 }
+                const [, chainVersionErr] = await checkChainVersionKey();
+                if (chainVersionErr) log.error('weightsVersionKey check failed:', chainVersionErr);
                 lastVersionCheck = Date.now();
             }
 
+            // Reveal previously committed weights once their window opens
+            if (!TEST_MODE) await revealPendingCommit();
+
+            if (WATCHDOG_ENABLED) await handleWatchdogCheck(await watchdog.check(btApi, signer!.address));
+
             // Check if it's time to set weights
-            const timeSinceLastSet = Date.now() - lastSet;
-            if (timeSinceLastSet >= SET_INTERVAL_MS) {
-                if (!TEST_MODE) {
+            // Check if the chain allows a new weight submission
+            let schedule: WeightSchedule | null = null;
+            let dueToSet = false;
+            if (operatorPause) {
+                log.notify(`CONTROL: weight submission paused by operator since ${operatorPause.since}: ${operatorPause.reason}`);
+                forcedResult.message = `Weight submission is paused since ${operatorPause.since}`;
+            } else if (chainVersionKey && !chainVersionKey.compatible) {
+                log.notify(`Not setting weights: the subnet's weightsVersionKey ${chainVersionKey.required} requires version ${chainVersionKey.requiredVersion} (client ${CLIENT_VERSION}, key ${CLIENT_VERSION_KEY})`);
+                forcedResult.message = `weightsVersionKey ${chainVersionKey.required} requires version ${chainVersionKey.requiredVersion}`;
+            } else if (WATCHDOG_ENABLED && watchdog.status().paused) {
+                log.notify(`WATCHDOG: weight submission paused since ${watchdog.status().pausedSince}: ${watchdog.status().reasons.map(r => r.message).join('; ')}`);
+                forcedResult.message = `Watchdog paused weight submission: ${watchdog.status().reasons.map(r => r.message).join('; ')}`;
+            } else if (validatorUid === undefined) {
+                log.error(`Validator hotkey ${signer!.address} has no UID on netuid ${NETUID}, cannot set weights`);
+                forcedResult.message = `Validator hotkey has no UID on netuid ${NETUID}`;
+                await alerter.send({
+                    event: 'deregistered',
+                    severity: 'critical',
+                    title: 'Validator hotkey deregistered',
+                    message: `Hotkey ${signer!.address} has no UID on netuid ${NETUID}; weights cannot be set`,
+                    details: { netuid: NETUID },
+                });
+            } else {
+                const [weightSchedule, scheduleErr] = await fetchWeightSchedule(btApi, NETUID, validatorUid);
+                if (scheduleErr || !weightSchedule) {
+                    log.warn('Failed to read weight rate limit, falling back to SET_INTERVAL_MS:', scheduleErr);
+                    dueToSet = forced.length > 0 || Date.now() - lastSet >= SET_INTERVAL_MS;
+                    if (!dueToSet) forcedResult.message = 'SET_INTERVAL_MS has not elapsed since the last weight set';
+                } else {
+                    schedule = weightSchedule;
+                    // A forced set is submitted anyway; the chain rejects it while rate limited
+                    dueToSet = forced.length > 0 || schedule.eligible;
+                    metrics.nextEligibleBlock.set(schedule.nextEligibleBlock);
+                    if (!schedule.eligible) {
+                        forcedResult.message = `Rate limited until block ${schedule.nextEligibleBlock}`;
+                        log.notify(`Next weight submission allowed at block ${schedule.nextEligibleBlock} (current ${schedule.currentBlock}, ~${Math.round(msUntilEligible(schedule) / 1000)}s, rate limit ${schedule.rateLimit}, tempo ${schedule.tempo})`);
+                    }
+                }
+            }
+
+            if (dueToSet) {
+                if (UID_MISMATCH_POLICY === 'block' && uidMismatchCount > 0) {
+                    log.notify(`Blocking weight setting: ${uidMismatchCount} registry miners are not registered on chain or changed UID`);
+                    forcedResult.message = `Blocked: ${uidMismatchCount} registry miners are not registered on chain or changed UID`;
+                } else if (!TEST_MODE) {
                     // Normalize weights before setting
-                    const [normalizedWeights, normErr] = await normalizeFinalMinerWeights(emaWeights);
+                    const [normalizedWeights, normErr] = normalizeFinalMinerWeights(emaWeights);
                     if (normErr) {
-                        console.error('Error normalizing weights:', normErr);
+                        log.error('Error normalizing weights:', normErr);
+                        forcedResult.message = `Error normalizing weights: ${normErr.message}`;
+                        trail.errors.push(forcedResult.message);
+                    } else if (!forced.length && await isBelowDiffThreshold(validatorUid!, normalizedWeights, schedule)) {
+                        trail.normalizedWeights = normalizedWeights;
+                        forcedResult.message = `Weight change is below WEIGHT_DIFF_THRESHOLD ${WEIGHT_DIFF_THRESHOLD}`;
+                        metrics.weightSetsSkipped.inc();
                     } else {
-                        const [, setErr] = await setWeightsOnNetwork(normalizedWeights);
+                        const [receipt, setErr] = await setWeightsOnNetwork(normalizedWeights, validatorUid!, trail);
                         if (setErr) {
-                            console.error('Error setting weights:', setErr);
+                            forcedResult.message = `Error setting weights: ${setErr.message}`;
+                            trail.errors.push(forcedResult.message);
+                        }
+                        trail.receipt = receipt?.tx ?? null;
+                        // The version key was raised since the last check; re-read it next iteration
+                        if (setErr?.message.includes('IncorrectWeightVersionKey')) lastVersionCheck = 0;
+                        if (setErr && isRateLimitError(setErr)) {
+                            // The schedule was off (e.g. a concurrent submission); not a validator fault
+                            log.warn('Weight submission rejected by the rate limit, retrying at the next eligible block:', setErr.message);
+                        } else if (setErr) {
+                            log.error('Error setting weights:', setErr);
+                            metrics.weightSetFailures.inc();
                             consecutiveErrors++;
+                            await alerter.send({
+                                event: 'weight_set_failed',
+                                severity: 'warning',
+                                title: 'Weight set failed',
+                                message: setErr.message,
+                                details: { validatorUid: validatorUid ?? null, consecutiveErrors },
+                            });
                             if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-                                console.error(`Too many consecutive errors (${consecutiveErrors}), exiting...`);
-                                process.exit(1);
+                                log.error(`Too many consecutive errors (${consecutiveErrors}), exiting...`);
+                                await lifecycle.shutdown(EXIT_CODE_TOO_MANY_ERRORS, `Too many consecutive errors (${consecutiveErrors}), last: ${setErr.message}`);
                                 return;
                             }
                         } else {
-                            userLog('Successfully set weights on network');
+                            log.notify(`Successfully set weights on network${receipt?.txHash ? ` (tx ${receipt.txHash})` : ''}`);
+                            forcedResult = {
+                                submitted: Boolean(receipt?.txHash),
+                                message: receipt?.txHash ? `Weights set in block ${receipt.blockNumber}` : 'Weights not submitted, a commit is awaiting reveal',
+                                txHash: receipt?.txHash ?? null,
+                                blockNumber: receipt?.blockNumber ?? null,
+                            };
                             lastSet = Date.now();
+                            if (receipt?.blockNumber) lastSetBlock = receipt.blockNumber;
+                            if (receipt?.txHash) lastTxHash = receipt.txHash;
+                            if (receipt) metrics.weightedUids.set(Object.keys(receipt.weights).length);
+                            if (receipt?.blockNumber && schedule) {
+                                log.notify(`Next weight submission allowed at block ${receipt.blockNumber + schedule.rateLimit}`);
+                            }
                         }
                     }
                 } else {
-                    userLog('TEST_MODE: Skipping weight setting');
+                    log.notify('TEST_MODE: Skipping weight setting');
+                    forcedResult.message = 'TEST_MODE: weights saved, not submitted';
                     lastSet = Date.now();
                 }
             }
 
-            await waitRemaining(startTime);
+            await persistState();
+            lastIterationCompleted = Date.now();
+            if (!updateConfirmed) {
+                // The running version works; a later crash is no longer blamed on the update
+                await confirmUpdate(UPDATE_STATE_FILE);
+                updateConfirmed = true;
+            }
+            // Wake up early when the next submission becomes allowed before the regular loop delay
+            await waitRemaining(startTime, schedule && !schedule.eligible ? msUntilEligible(schedule) : LOOP_DELAY_MS);
         } catch (err) {
-            console.error('Error in main loop:', err);
+            log.error('Error in main loop:', err);
+            forcedResult.message = `Error in main loop: ${err instanceof Error ? err.message : String(err)}`;
+            if (trail) {
+                trail.errors.push(forcedResult.message);
+                trail.finishedAt = Date.now();
+            }
             consecutiveErrors++;
             if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-                console.error(`Too many consecutive errors (${consecutiveErrors}), exiting...`);
-                process.exit(1);
+                log.error(`Too many consecutive errors (${consecutiveErrors}), exiting...`);
+                await lifecycle.shutdown(EXIT_CODE_TOO_MANY_ERRORS, `Too many consecutive errors (${consecutiveErrors}), last: ${err instanceof Error ? err.message : String(err)}`);
                 return;
             }
-            await delay(LOOP_DELAY_MS);
+            if (!simulation) {
+                // Answer forced sets before backing off
+                for (const resolve of forced.splice(0)) resolve({ iteration, ...forcedResult });
+                await sleep(LOOP_DELAY_MS);
+            }
+        } finally {
+            for (const resolve of forced) resolve({ iteration, ...forcedResult });
+            if (trail && auditTrail) {
+                trail.finishedAt ||= Date.now();
+                trail.reason = forcedResult.message;
+                trail.outcome = trail.receipt ? 'submitted' : trail.errors.length ? 'failed' : 'skipped';
+                const [, recordErr] = auditTrail.record(trail);
+                if (recordErr) log.warn('Failed to record the iteration in the audit trail:', recordErr);
+                if (Date.now() - lastAuditTrailPrune >= AUDIT_TRAIL_PRUNE_INTERVAL_MS) {
+                    const [removed, pruneErr] = auditTrail.prune(Date.now() - AUDIT_TRAIL_RETENTION_MS);
+                    if (pruneErr) log.warn('Failed to prune the audit trail:', pruneErr);
+                    else if (removed > 0) log.info(`Pruned ${removed} audit trail iterations older than ${config.auditTrail.retentionDays} days`);
+                    lastAuditTrailPrune = Date.now();
+                }
+            }
         }
     }
 }
 
-async function normalizeFinalMinerWeights(finalMinerWeights: Record<string, number>): Promise<Result<Record<string, number>>> {
-    const normalizedFinalMinerWeights: Record<string, number> = {};
-    const totalWeight = Object.values(finalMinerWeights).reduce((sum, weight) => sum + weight, 0);
-    
-    // Handle case where totalWeight is 0, NaN, or invalid
-    if (!totalWeight || totalWeight <= 0 || !isFinite(totalWeight)) {
-        const minerIds = Object.keys(finalMinerWeights);
-        const uniformWeight = minerIds.length > 0 ? 1 / minerIds.length : 0;
-        
-        console.warn(`Invalid or zero total weight (${totalWeight}), using uniform distribution: ${uniformWeight.toFixed(6)} per miner`);
-        for (const minerId of minerIds) {
-            normalizedFinalMinerWeights[minerId] = uniformWeight;
-        }
-        return [normalizedFinalMinerWeights, null];
+/**
+ * Diff the vector that would be submitted (after clipping and padding) against
+ * the validator's current on-chain row, write the diff to logs/weights/ and
+ * report whether the submission should be skipped. Never skips when the on-chain
+ * row cannot be read or is older than WEIGHT_DIFF_MAX_SKIP_BLOCKS, or when the
+ * weights cannot be converted (the submission reports why).
+ */
+async function isBelowDiffThreshold(validatorUid: number, normalized: Record<string, number>, schedule: WeightSchedule | null): Promise<boolean> {
+    if (!btApi || Object.keys(normalized).length === 0) return false;
+
+    const [params, paramsErr] = await fetchWeightHyperparameters(btApi, NETUID);
+    if (paramsErr || !params) return false;
+    const [converted, convertErr] = convertWeights(normalized, params, validatorUid);
+    if (convertErr || !converted) return false;
+    const proposed = Object.fromEntries(converted.uids.map((uid, i) => [String(uid), converted.values[i]]));
+
+    const [onChain, chainErr] = await fetchValidatorWeights(btApi, NETUID, validatorUid);
+    if (chainErr) {
+        log.warn('Failed to read on-chain weights, submitting without diff:', chainErr);
+        return false;
     }
-    
-    for (const [minerId, weight] of Object.entries(finalMinerWeights)) {
-        // Additional safety check for individual weights
-        if (!isFinite(weight) || weight < 0) {
-            console.warn(`Invalid weight ${weight} for miner ${minerId}, setting to 0`);
-            normalizedFinalMinerWeights[minerId] = 0;
-        } else {
-            normalizedFinalMinerWeights[minerId] = weight / totalWeight;
-        }
+
+    const diff = computeWeightDiff(onChain, proposed);
+    metrics.weightDiffL1.set(diff.l1Distance);
+    log.notify(`Weight diff vs on-chain: L1 ${diff.l1Distance.toFixed(4)}, max ${diff.maxAbsDiff.toFixed(4)}, +${diff.added.length} / -${diff.removed.length} UIDs`);
+    if (diff.topMovers.length > 0) log.info('Top movers:', diff.topMovers);
+
+    const [diffPath, writeErr] = await writeWeightDiff(path.join(logDir, 'weights'), diff);
+    if (writeErr) log.error('Failed to write weight diff:', writeErr);
+    else log.info(`Weight diff saved to ${diffPath}`);
+
+    if (diff.l1Distance >= WEIGHT_DIFF_THRESHOLD || Object.keys(onChain).length === 0) return false;
+    const blocksSinceUpdate = schedule ? schedule.currentBlock - schedule.lastUpdateBlock : Infinity;
+    if (blocksSinceUpdate >= WEIGHT_DIFF_MAX_SKIP_BLOCKS) {
+        log.notify(`Weight change below threshold but on-chain weights are ${isFinite(blocksSinceUpdate) ? `${blocksSinceUpdate} blocks` : 'of unknown age and'} old, submitting anyway`);
+        return false;
     }
-    return [normalizedFinalMinerWeights, null];
+    log.notify(`Skipping weight submission: L1 change ${diff.l1Distance.toFixed(4)} is below WEIGHT_DIFF_THRESHOLD ${WEIGHT_DIFF_THRESHOLD}`);
+    return true;
 }
 
-async function setWeightsOnNetwork(normalizedFinalMinerWeights: Record<string, number>): Promise<Result<Record<string, number>>> {
+// Fills the final normalized weights and the submitted u16 vector into `trail`
+async function setWeightsOnNetwork(normalizedFinalMinerWeights: Record<string, number>, validatorUid: number, trail: IterationRecord): Promise<Result<SetWeightsReceipt | null>> {
     try {
         // Always save weights to a timestamped JSON file for inspection
         try {
@@ -665,20 +1429,20 @@ async function setWeightsOnNetwork(normalizedFinalMinerWeights: Record<string, n
                 timestamp: new Date().toISOString(),
                 testMode: TEST_MODE
             }, null, 2));
-            userLog(`Weights saved to ${filePath}`);
+            log.notify(`Weights saved to ${filePath}`);
         } catch (fileErr) {
-            console.error('Failed to write weights file:', fileErr);
+            log.error('Failed to write weights file:', fileErr);
         }
 
         if (TEST_MODE) {
-            console.log('[TEST_MODE] Skipping setWeightsOnNetwork call. Weights that would be set:', JSON.stringify(normalizedFinalMinerWeights, null, 2));
-            return [normalizedFinalMinerWeights, null];
+            log.info('[TEST_MODE] Skipping setWeightsOnNetwork call. Weights that would be set:', JSON.stringify(normalizedFinalMinerWeights, null, 2));
+            return [{ weights: normalizedFinalMinerWeights, txHash: null, blockNumber: null, tx: null }, null];
         }
 
         if (!btApi || !signer) {
             const error = new Error('Bittensor API not initialized');
-            console.error(error);
-            return [{}, error];
+            log.error(error);
+            return [null, error];
         }
 
         // Verify API connection is still active
@@ -686,93 +1450,195 @@ async function setWeightsOnNetwork(normalizedFinalMinerWeights: Record<string, n
             await btApi.rpc.chain.getHeader();
         } catch (apiErr) {
             const error = new Error(`Bittensor API connection lost: ${apiErr instanceof Error ? apiErr.message : String(apiErr)}`);
-            console.error(error);
-            return [{}, error];
+            log.error(error);
+            return [null, error];
         }
 
-        let entries = Object.entries(normalizedFinalMinerWeights);
-
-        if (entries.length === 0) {
-            console.warn('No miner weight data found – falling back to uniform weights across all registered UIDs.');
+        if (Object.keys(normalizedFinalMinerWeights).length === 0) {
+            log.warn('No miner weight data found – falling back to uniform weights across all registered UIDs.');
             const [uidsFallback, uidErr] = await fetchAllUids();
             if (uidErr) {
-                console.error('Failed to fetch UIDs for fallback:', uidErr);
-                return [{}, uidErr];
+                log.error('Failed to fetch UIDs for fallback:', uidErr);
+                return [null, uidErr];
             }
             if (uidsFallback.length === 0) {
                 const error = new Error('Unable to determine UIDs for uniform weight distribution');
-                console.error(error);
-                return [{}, error];
+                log.error(error);
+                return [null, error];
             }
 
             const uniform = 1 / uidsFallback.length;
             normalizedFinalMinerWeights = Object.fromEntries(uidsFallback.map(uid => [uid.toString(), uniform]));
-            entries = Object.entries(normalizedFinalMinerWeights);
-            console.log(`Applied uniform weight ${uniform.toFixed(6)} to ${uidsFallback.length} UIDs.`);
+            log.info(`Applied uniform weight ${uniform.toFixed(6)} to ${uidsFallback.length} UIDs.`);
+        }
+        trail.normalizedWeights = normalizedFinalMinerWeights;
+
+        // Respect maxWeightsLimit / minAllowedWeights and convert to u16 summing to 65535
+        const [params, paramsErr] = await fetchWeightHyperparameters(btApi, NETUID);
+        if (paramsErr || !params) {
+            const error = new Error(`Failed to read weight hyperparameters: ${paramsErr?.message ?? 'no data'}`);
+            log.error(error);
+            return [null, error];
+        }
+        const [converted, convertErr] = convertWeights(normalizedFinalMinerWeights, params, validatorUid);
+        if (convertErr || !converted) {
+            const error = new Error(`Refusing to submit invalid weights: ${convertErr?.message ?? 'no data'}`);
+            log.error(error);
+            return [null, error];
+        }
+        const { uids, values: scaled } = converted;
+        if (converted.clipped.length) log.notify(`Clipped ${converted.clipped.length} weights to maxWeightsLimit ${params.maxWeightsLimit}: UIDs ${converted.clipped.join(', ')}`);
+        if (converted.padded.length) log.notify(`Padded ${converted.padded.length} UIDs to reach ${converted.uids.length} weights (minAllowedWeights ${params.minAllowedWeights}, maxWeightsLimit ${params.maxWeightsLimit}): ${converted.padded.join(', ')}`);
+        log.info('Expected on-chain row:', converted.onChain);
+
+        // At least the subnet's weightsVersionKey; the loop does not submit otherwise
+        const versionKey = CLIENT_VERSION_KEY;
+        trail.submitted = { uids, values: scaled, versionKey };
+
+        // Subnets with commit-reveal enabled only accept hashed weight commits
+        const [commitRevealEnabled, crErr] = await isCommitRevealEnabled(btApi, NETUID);
+        if (crErr) {
+            log.warn('Failed to read commit-reveal hyperparameter, assuming disabled:', crErr);
+        }
+        if (commitRevealEnabled) {
+            const [commitReceipt, commitErr] = await commitWeightsOnNetwork(uids, scaled, versionKey);
+            if (commitErr) return [null, commitErr];
+            return [{ weights: normalizedFinalMinerWeights, txHash: commitReceipt?.txHash ?? null, blockNumber: commitReceipt?.blockNumber ?? null, tx: commitReceipt }, null];
         }
 
-        const uids = entries.map(([uid]) => Number(uid));
-        const floatWeights = entries.map(([_, w]) => w);
+        log.info('Setting weights on network...');
+        log.info('Uids:', uids);
+        log.info('Scaled:', scaled);
+        log.info('Version key:', versionKey);
 
-        // Scale to u16 (0..65535) and ensure sum == 65535
-        let scaled = floatWeights.map(w => Math.round(w * 65535));
-        const totalScaled = scaled.reduce((a, b) => a + b, 0);
-        if (totalScaled === 0) {
-            const error = new Error('All scaled weights are zero');
-            console.error(error);
-            return [{}, error];
-        }
-        if (totalScaled !== 65535) {
-            scaled = scaled.map(w => Math.round((w * 65535) / totalScaled));
+        const [receipt, txErr] = await txManager.submit(api => api.tx.subtensorModule.setWeights(NETUID, uids, scaled, versionKey));
+        if (txErr || !receipt) return [null, txErr ?? new Error('setWeights was not included')];
+        lastTxReceipt = receipt;
+        return [{ weights: normalizedFinalMinerWeights, txHash: receipt.txHash, blockNumber: receipt.blockNumber, tx: receipt }, null];
+    } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        log.error('Error in setWeightsOnNetwork:', error);
+        return [null, error];
+    }
+}
+
+// Resolves to null (without error) when a previous commit is still awaiting reveal
+async function commitWeightsOnNetwork(uids: number[], values: number[], versionKey: number): Promise<Result<TxReceipt | null>> {
+    if (!btApi || !signer) return [null, new Error('Bittensor API not initialized')];
+
+    const pending = await loadPendingCommit(PENDING_COMMIT_FILE);
+    if (pending && pending.commitBlock) {
+        const currentBlock = await getCurrentBlockNumber();
+        if (getRevealStatus(pending, currentBlock) !== 'expired') {
+            log.notify(`Commit ${pending.commitHash} is still awaiting reveal (blocks ${pending.revealStartBlock}-${pending.revealEndBlock}), not committing new weights`);
+            return [null, null];
         }
+        log.error(`Missed reveal window for commit ${pending.commitHash} (blocks ${pending.revealStartBlock}-${pending.revealEndBlock}, current ${currentBlock}), discarding it`);
+    }
 
-        const header = await btApi.rpc.chain.getHeader();
-        const versionKey = header.number.toNumber();
-        console.log('Setting weights on network...');
-        console.log('Uids:', uids);
-        console.log('Scaled:', scaled);
-        console.log('Version key:', versionKey);
-
-        // Submit extrinsic with timeout
-        const txPromise = new Promise<void>((resolve, reject) => {
-            const timeoutId = setTimeout(() => {
-                reject(new Error('Transaction timeout after 5 minutes'));
-            }, 300000); // 5 minute timeout
+    const salt = generateSalt();
+    const commitHash = computeCommitHash(btApi, signer.address, NETUID, uids, values, salt, versionKey);
+    const commit: PendingCommit = {
+        netuid: NETUID,
+        hotkey: signer.address,
+        commitHash,
+        uids,
+        values,
+        salt,
+        versionKey,
+        commitBlock: 0,
+        revealStartBlock: 0,
+        revealEndBlock: 0,
+        createdAt: new Date().toISOString(),
+    };
 
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore – dynamic lookup of pallet in generated types
-            const tx = btApi.tx.subtensorModule.setWeights(NETUID, uids, scaled, versionKey);
-
-            tx.signAndSend(signer!, { nonce: -1 }, (result: ISubmittableResult) => {
-                if (result.status.isFinalized || result.status.isInBlock) {
-                    clearTimeout(timeoutId);
-                    if (result.dispatchError) {
-                        let errMsg = result.dispatchError.toString();
-                        if (result.dispatchError.isModule) {
-                            const decoded = btApi!.registry.findMetaError(result.dispatchError.asModule);
-                            errMsg = `${decoded.section}.${decoded.name}: ${decoded.docs.join(' ')}`;
-                        }
-                        reject(new Error(errMsg));
-                    } else {
-                        resolve();
-                    }
-                } else if (result.isError) {
-                    clearTimeout(timeoutId);
-                    reject(new Error('Transaction error'));
-                }
-            }).catch(err => {
-                clearTimeout(timeoutId);
-                reject(err);
-            });
-        });
+    // Persist the salt before submitting so a crash after inclusion can still reveal
+    const saveErr = await savePendingCommit(PENDING_COMMIT_FILE, commit);
+    if (saveErr) return [null, new Error(`Failed to persist pending commit: ${saveErr.message}`)];
 
-        await txPromise;
-        return [normalizedFinalMinerWeights, null];
+    log.info('Committing weights on network...');
+    log.info('Uids:', uids);
+    log.info('Scaled:', values);
+    log.info('Commit hash:', commitHash);
+
+    try {
+        const [receipt, txErr] = await txManager.submit(api => api.tx.subtensorModule.commitWeights(NETUID, commitHash));
+        if (txErr || !receipt) throw txErr ?? new Error('commitWeights was not included');
+        lastTxReceipt = receipt;
+        commit.commitBlock = receipt.blockNumber;
+        const [window, windowErr] = await getRevealWindow(btApi, NETUID, commit.commitBlock);
+        if (windowErr || !window) {
+            log.error('Failed to compute reveal window, it will be recomputed before reveal:', windowErr);
+            return [null, windowErr ?? new Error('Failed to compute reveal window')];
+        }
+        commit.revealStartBlock = window.start;
+        commit.revealEndBlock = window.end;
+
+        const updateErr = await savePendingCommit(PENDING_COMMIT_FILE, commit);
+        if (updateErr) log.error('Failed to update pending commit:', updateErr);
+
+        log.notify(`Committed weights at block ${commit.commitBlock}, reveal window ${window.start}-${window.end}`);
+        return [receipt, null];
     } catch (err) {
         const error = err instanceof Error ? err : new Error(String(err));
-        console.error('Error in setWeightsOnNetwork:', error);
-        return [{}, error];
+        log.error('Weight commit failed:', error);
+        await clearPendingCommit(PENDING_COMMIT_FILE);
+        return [null, error];
+    }
+}
+
+// Reveal the pending commit once its reveal window opens; called every iteration
+async function revealPendingCommit(): Promise<void> {
+    if (!btApi || !signer) return;
+
+    const pending = await loadPendingCommit(PENDING_COMMIT_FILE);
+    if (!pending) return;
+
+    if (pending.hotkey !== signer.address || pending.netuid !== NETUID) {
+        log.warn(`Pending commit belongs to ${pending.hotkey} on netuid ${pending.netuid}, discarding it`);
+        await clearPendingCommit(PENDING_COMMIT_FILE);
+        return;
+    }
+    if (!pending.commitBlock) {
+        // Submission was interrupted before inclusion was recorded; the chain drops stale commits
+        log.warn(`Pending commit ${pending.commitHash} has no recorded inclusion block, discarding it`);
+        await clearPendingCommit(PENDING_COMMIT_FILE);
+        return;
+    }
+    if (!pending.revealStartBlock) {
+        const [window, windowErr] = await getRevealWindow(btApi, NETUID, pending.commitBlock);
+        if (windowErr || !window) {
+            log.error('Failed to compute reveal window:', windowErr);
+            return;
+        }
+        pending.revealStartBlock = window.start;
+        pending.revealEndBlock = window.end;
+        await savePendingCommit(PENDING_COMMIT_FILE, pending);
+    }
+
+    const currentBlock = await getCurrentBlockNumber();
+    if (currentBlock === 0) return;
+
+    const status = getRevealStatus(pending, currentBlock);
+    if (status === 'waiting') {
+        log.info(`Pending commit reveals in ${pending.revealStartBlock - currentBlock} blocks (window ${pending.revealStartBlock}-${pending.revealEndBlock})`);
+        return;
+    }
+    if (status === 'expired') {
+        log.error(`Missed reveal window for commit ${pending.commitHash} (blocks ${pending.revealStartBlock}-${pending.revealEndBlock}, current ${currentBlock}), discarding it`);
+        await clearPendingCommit(PENDING_COMMIT_FILE);
+        return;
+    }
+
+    log.notify(`Revealing weights committed at block ${pending.commitBlock}...`);
+    const [receipt, txErr] = await txManager.submit(api => api.tx.subtensorModule.revealWeights(pending.netuid, pending.uids, pending.values, pending.salt, pending.versionKey));
+    if (txErr || !receipt) {
+        log.error(`Weight reveal failed, retrying until block ${pending.revealEndBlock}:`, txErr);
+        return;
     }
+    lastTxReceipt = receipt;
+    await clearPendingCommit(PENDING_COMMIT_FILE);
+    log.notify(`Successfully revealed weights in block ${receipt.blockNumber}`);
 }
 
 async function fetchAllUids(): Promise<Result<number[]>> {
@@ -792,83 +1658,42 @@ async function fetchAllUids(): Promise<Result<number[]>> {
     }
 }
 
-async function fetchWeightsFromServer(): Promise<[Record<string, number> | null, Error | null]> {
-    const now = Date.now();
-
-    // Return cached data if it exists and is not expired
-    if (cachedWeights && (now - cachedWeights.timestamp) < CACHE_DURATION_MS) {
-        userLog('Using cached weights data');
-        return [cachedWeights.data, null];
-    }
-
-    const maxRetries = 3;
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            userLog(`Fetching fresh weights from server (attempt ${attempt}/${maxRetries})`);
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-
-            const response = await fetch('https://77.creativebuilds.io/weights', {
-                signal: controller.signal
-            });
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                throw new Error(`Server responded with status ${response.status}: ${response.statusText}`);
-            }
-
-            const data = await response.json() as WeightsResponse;
-            
-            if (!data.success) {
-                throw new Error(data.error || 'Failed to fetch weights');
-            }
-
-            // Update cache
-            cachedWeights = {
-                data: data.weights,
-                timestamp: now
-            };
-            
-            return [data.weights, null];
-        } catch (err) {
-            lastError = err instanceof Error ? err : new Error(String(err));
-            if (err instanceof Error && err.name === 'AbortError') {
-                console.error('Request timed out');
-            } else {
-                console.error(`Attempt ${attempt} failed:`, lastError);
-            }
-            
-            if (attempt < maxRetries) {
-                const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 10000); // Exponential backoff, max 10s
-                await delay(delayMs);
-            }
-        }
-    }
-
-    // If we have cached data but it's expired, use it as fallback
-    if (cachedWeights) {
-        console.warn('Using expired cached data due to fetch failures');
-        return [cachedWeights.data, null];
-    }
-
-    return [null, lastError];
-}
-
 async function fetchRegistryMap(): Promise<[RegistryMapResponse | null, Error | null]> {
   try {
-    const response = await fetch('https://77.creativebuilds.io/allMiners');
+    const requestStart = Date.now();
+    const response = await fetch(`${SERVER_URL}/allMiners`);
     const data = await response.json() as RegistryMapResponse;
+    metrics.serverFetchDuration.observe((Date.now() - requestStart) / 1000, { endpoint: 'allMiners' });
     
-    if (!data.success) return [null, new Error(data.error || 'Failed to fetch miners')];
+    if (!data.success) {
+      metrics.serverFetchFailures.inc({ endpoint: 'allMiners' });
+      return [null, new Error(data.error || 'Failed to fetch miners')];
+    }
     return [data, null];
   } catch (err) {
+    metrics.serverFetchFailures.inc({ endpoint: 'allMiners' });
     return [null, err instanceof Error ? err : new Error(String(err))];
   }
 }
 
-main().catch((err) => {
-    console.error('Unhandled error:', err);
-    process.exit(1);
+/**
+ * Start-up check used by the auto-updater's pre-flight: load the configuration,
+ * connect to subtensor, create the signer and reach the weights server.
+ */
+async function smokeTest(): Promise<void> {
+    const keyErr = await loadValidatorKey();
+    if (keyErr) throw keyErr;
+    const bittensorErr = await initializeBittensor();
+    if (bittensorErr) throw bittensorErr;
+    const [pingResponse, pingErr] = await pingServer();
+    if (pingErr || !pingResponse?.success) throw pingErr ?? new Error(pingResponse?.error || 'Ping failed');
+    log.notify(`Smoke test passed (client ${CLIENT_VERSION}, server ${pingResponse.serverVersion})`);
+    await connectionManager.close();
+    process.exit(0);
+}
+
+(SMOKE_TEST ? smokeTest() : main()).catch(async (err) => {
+    log.error('Unhandled error:', err);
+    if (SMOKE_TEST) process.exit(1);
+    await lifecycle.shutdown(EXIT_CODE_UNHANDLED_ERROR, `Unhandled error: ${err instanceof Error ? err.message : String(err)}`);
 });
\ No newline at end of file
@@ -0,0 +1,139 @@
+/**
+ * Process lifecycle for the sn77 validator
+ *
+ * All exits go through `shutdown(code, reason)`: it stops new work, aborts
+ * in-flight work that can be aborted (e.g. an auto-update), waits for it and
+ * for in-flight extrinsics up to a deadline, runs the registered shutdown hooks
+ * (persist state, send alerts, close the API), flushes the log files and exits
+ * with a code that tells the supervisor or process manager why the validator
+ * stopped (EXIT_CODE_RESTART from the updater requests a restart).
+ */
+
+import { flushLogger, getLogger } from '../utils/logger';
+
+// Stopped on request (SIGINT/SIGTERM)
+export const EXIT_CODE_OK = 0;
+export const EXIT_CODE_UNHANDLED_ERROR = 1;
+// Subtensor connection or registration could not be set up; may clear on its own
+export const EXIT_CODE_INIT_FAILED = 2;
+// The 12h version incompatibility window expired; restarting does not help
+export const EXIT_CODE_VERSION_TIMEOUT = 3;
+export const EXIT_CODE_TOO_MANY_ERRORS = 4;
+// A clean shutdown had to abandon a pending extrinsic or a hook
+export const EXIT_CODE_SHUTDOWN_TIMEOUT = 5;
+// Invalid configuration or validator key; restarting does not help
+export const EXIT_CODE_CONFIG_INVALID = 6;
+
+export interface ShutdownInfo {
+  code: number;
+  reason: string;
+}
+
+export interface LifecycleOptions {
+  // total time for pending extrinsics and shutdown hooks
+  deadlineMs: number;
+}
+
+interface ShutdownHook {
+  name: string;
+  run: (info: ShutdownInfo) => Promise<void>;
+}
+
+const log = getLogger('lifecycle');
+
+// Hooks still get this long when pending work used up the deadline
+const MIN_HOOK_TIMEOUT_MS = 5_000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<boolean> => new Promise(resolve => {
+    const timeoutId = setTimeout(() => resolve(false), Math.max(0, ms));
+    promise.then(
+        () => { clearTimeout(timeoutId); resolve(true); },
+        () => { clearTimeout(timeoutId); resolve(true); },
+    );
+});
+
+export const createLifecycle = (options: LifecycleOptions) => {
+    const hooks: ShutdownHook[] = [];
+    const pending = new Map<number, { name: string; promise: Promise<unknown>; abort?: () => void }>();
+    let nextPendingId = 0;
+    let shuttingDown: Promise<never> | null = null;
+
+    const runShutdown = async (info: ShutdownInfo): Promise<never> => {
+        const deadline = Date.now() + options.deadlineMs;
+        let timedOut = false;
+        log.notify(`Shutting down (exit code ${info.code}): ${info.reason}`);
+
+        for (const work of pending.values()) {
+            if (!work.abort) continue;
+            log.notify(`Aborting ${work.name}...`);
+            work.abort();
+        }
+        if (pending.size > 0) {
+            const names = [...pending.values()].map(p => p.name);
+            log.notify(`Waiting up to ${Math.round(options.deadlineMs / 1000)}s for ${names.join(', ')}...`);
+            const settled = await withTimeout(Promise.allSettled([...pending.values()].map(p => p.promise)), deadline - Date.now());
+            if (!settled) {
+                log.error(`Abandoning pending ${names.join(', ')} after the shutdown deadline`);
+                timedOut = true;
+            }
+        }
+
+        // Hooks run in registration order, each bounded by what is left of the deadline
+        for (const hook of hooks) {
+            const timeoutMs = Math.max(deadline - Date.now(), MIN_HOOK_TIMEOUT_MS);
+            const finished = await withTimeout(hook.run(info).catch(err => log.error(`Shutdown hook ${hook.name} failed:`, err)), timeoutMs);
+            if (!finished) {
+                log.error(`Shutdown hook ${hook.name} did not finish before the deadline`);
+                timedOut = true;
+            }
+        }
+
+        const code = timedOut && info.code === EXIT_CODE_OK ? EXIT_CODE_SHUTDOWN_TIMEOUT : info.code;
+        log.notify(`Validator stopped (exit code ${code})`);
+        await flushLogger();
+        process.exit(code);
+    };
+
+    // Idempotent: later calls wait for the first shutdown
+    const shutdown = (code: number, reason: string): Promise<never> => {
+        if (!shuttingDown) shuttingDown = runShutdown({ code, reason });
+        return shuttingDown;
+    };
+
+    return {
+        addShutdownHook: (name: string, run: (info: ShutdownInfo) => Promise<void>): void => {
+            hooks.push({ name, run });
+        },
+
+        /**
+         * Register in-flight work (e.g. a submitted extrinsic) that shutdown waits for;
+         * `abort` is called first when the work can be cut short.
+         */
+        track: <T>(name: string, promise: Promise<T>, abort?: () => void): Promise<T> => {
+            const id = nextPendingId++;
+            pending.set(id, { name, promise, abort });
+            const untrack = () => { pending.delete(id); };
+            promise.then(untrack, untrack);
+            return promise;
+        },
+
+        isShuttingDown: (): boolean => shuttingDown !== null,
+
+        shutdown,
+
+        // The first signal starts a graceful shutdown, a second one exits immediately
+        installSignalHandlers: (): void => {
+            const onSignal = (signal: NodeJS.Signals) => {
+                if (shuttingDown) {
+                    log.error(`Received ${signal} again, exiting immediately`);
+                    process.exit(EXIT_CODE_SHUTDOWN_TIMEOUT);
+                }
+                void shutdown(EXIT_CODE_OK, `received ${signal}`);
+            };
+            process.on('SIGINT', () => onSignal('SIGINT'));
+            process.on('SIGTERM', () => onSignal('SIGTERM'));
+        },
+    };
+};
+
+export type Lifecycle = ReturnType<typeof createLifecycle>;
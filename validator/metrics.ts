@@ -0,0 +1,197 @@
+/**
+ * Prometheus metrics and health endpoint for the sn77 validator
+ *
+ * A minimal in-process registry rendered in the Prometheus text exposition
+ * format; served together with `/healthz` by an optional HTTP server.
+ */
+
+import http from 'http';
+import { getLogger } from '../utils/logger';
+
+const log = getLogger('metrics');
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render: () => string[];
+}
+
+export interface HealthStatus {
+  healthy: boolean;
+  [key: string]: unknown;
+}
+
+const families: MetricFamily[] = [];
+
+const labelKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const formatLabels = (labels: Labels): string => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}`;
+};
+
+const formatValue = (value: number): string => {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+};
+
+const createSampleStore = () => {
+    const samples = new Map<string, Sample>();
+    const get = (labels: Labels): Sample => {
+        const key = labelKey(labels);
+        let sample = samples.get(key);
+        if (!sample) {
+            sample = { labels, value: 0 };
+            samples.set(key, sample);
+        }
+        return sample;
+    };
+    return { samples, get };
+};
+
+export const counter = (name: string, help: string) => {
+    const store = createSampleStore();
+    families.push({
+        name,
+        help,
+        type: 'counter',
+        render: () => [...store.samples.values()].map(s => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+    });
+    return {
+        inc: (labels: Labels = {}, by = 1): void => { store.get(labels).value += by; },
+    };
+};
+
+export const gauge = (name: string, help: string) => {
+    const store = createSampleStore();
+    let collector: (() => number) | null = null;
+    families.push({
+        name,
+        help,
+        type: 'gauge',
+        render: () => {
+            if (collector) return [`${name} ${formatValue(collector())}`];
+            return [...store.samples.values()].map(s => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+        },
+    });
+    return {
+        set: (value: number, labels: Labels = {}): void => { store.get(labels).value = value; },
+        // Compute the value at scrape time instead of storing it
+        collect: (fn: () => number): void => { collector = fn; },
+    };
+};
+
+export const histogram = (name: string, help: string, buckets: number[]) => {
+    const sorted = [...buckets].sort((a, b) => a - b);
+    const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+    families.push({
+        name,
+        help,
+        type: 'histogram',
+        render: () => {
+            const lines: string[] = [];
+            for (const s of series.values()) {
+                sorted.forEach((le, i) => {
+                    lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`);
+                });
+                lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`);
+                lines.push(`${name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`);
+                lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+            }
+            return lines;
+        },
+    });
+    return {
+        observe: (value: number, labels: Labels = {}): void => {
+            const key = labelKey(labels);
+            let s = series.get(key);
+            if (!s) {
+                s = { labels, counts: sorted.map(() => 0), sum: 0, count: 0 };
+                series.set(key, s);
+            }
+            sorted.forEach((le, i) => { if (value <= le) s!.counts[i]++; });
+            s.sum += value;
+            s.count++;
+        },
+    };
+};
+
+export const renderMetrics = (): string => {
+    const lines: string[] = [];
+    for (const family of families) {
+        lines.push(`# HELP ${family.name} ${family.help}`);
+        lines.push(`# TYPE ${family.name} ${family.type}`);
+        lines.push(...family.render());
+    }
+    return lines.join('\n') + '\n';
+};
+
+// ----------------------
+//  Validator metrics
+// ----------------------
+export const metrics = {
+    iterations: counter('sn77_validator_iterations_total', 'Main loop iterations started'),
+    consecutiveErrors: gauge('sn77_validator_consecutive_errors', 'Current number of consecutive loop errors'),
+    secondsSinceLastSet: gauge('sn77_validator_seconds_since_last_set', 'Seconds since the last successful setWeightsOnNetwork (NaN before the first)'),
+    weightSetFailures: counter('sn77_validator_weight_set_failures_total', 'Failed setWeightsOnNetwork calls'),
+    serverFetchDuration: histogram('sn77_validator_server_fetch_duration_seconds', 'Latency of requests to the weights server', [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]),
+    serverFetchFailures: counter('sn77_validator_server_fetch_failures_total', 'Failed requests to the weights server'),
+    payloadVerificationFailures: counter('sn77_validator_payload_verification_failures_total', 'Weights payloads that failed signature, freshness or block checks'),
+    weightsCacheHits: counter('sn77_validator_weights_cache_hits_total', 'Weights served from the fetchWeightsFromServer cache'),
+    versionCompatible: gauge('sn77_validator_version_compatible', 'Version compatibility from the last check (1 compatible, 0 incompatible, -1 check failed)'),
+    wsDisconnects: counter('sn77_validator_ws_disconnects_total', 'Subtensor websocket disconnects'),
+    wsReconnects: counter('sn77_validator_ws_reconnects_total', 'Successful subtensor websocket reconnects'),
+    weightedUids: gauge('sn77_validator_weighted_uids', 'Number of UIDs in the last submitted weight vector'),
+    nextEligibleBlock: gauge('sn77_validator_next_eligible_block', 'Block from which the weights rate limit allows the next submission'),
+    weightsPaused: gauge('sn77_validator_weights_paused', 'Weight submission paused by the watchdog or an operator (1 paused, 0 active), labelled by reason'),
+    validatorStake: gauge('sn77_validator_stake', 'Stake weight of the validator hotkey (alpha plus root stake times the TAO weight) from the last watchdog check'),
+    uidMismatches: gauge('sn77_validator_uid_mismatches', 'Registry miners without an on-chain UID or whose UID changed since the previous iteration'),
+    auditL1Distance: gauge('sn77_validator_audit_l1_distance', 'L1 distance between server and locally computed weights in the last audit'),
+    anomalyL1Distance: gauge('sn77_validator_anomaly_l1_distance', 'L1 distance between the last combined weights and the anomaly guard baseline'),
+    weightsQuarantined: counter('sn77_validator_weights_quarantined_total', 'Combined weight maps quarantined by the anomaly guard'),
+    weightDiffL1: gauge('sn77_validator_weight_diff_l1', 'L1 distance between the proposed and the current on-chain weights'),
+    weightSetsSkipped: counter('sn77_validator_weight_sets_skipped_total', 'Weight submissions skipped because the change was below WEIGHT_DIFF_THRESHOLD'),
+    alertsSent: counter('sn77_validator_alerts_sent_total', 'Alerts delivered to at least one of the configured webhooks'),
+    alertDeliveryFailures: counter('sn77_validator_alert_delivery_failures_total', 'Failed alert deliveries per webhook format'),
+    alertsSuppressed: counter('sn77_validator_alerts_suppressed_total', 'Alerts dropped as duplicates or by the rate limit'),
+};
+
+/**
+ * Serve `/metrics` and `/healthz`. `/healthz` answers 200 when the health check
+ * reports healthy and 503 otherwise, with the status as JSON.
+ */
+export const startMetricsServer = (port: number, host: string, getHealth: () => HealthStatus): http.Server => {
+    const server = http.createServer((req, res) => {
+        const url = (req.url || '/').split('?')[0];
+        if (req.method !== 'GET') {
+            res.writeHead(405).end();
+            return;
+        }
+        if (url === '/metrics') {
+            res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+            res.end(renderMetrics());
+            return;
+        }
+        if (url === '/healthz') {
+            const health = getHealth();
+            res.writeHead(health.healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(health));
+            return;
+        }
+        res.writeHead(404).end();
+    });
+    server.on('error', err => log.error('Metrics server error:', err));
+    server.listen(port, host);
+    return server;
+};
@@ -0,0 +1,88 @@
+/**
+ * Signed weight payloads for the sn77 validator
+ *
+ * The weights server signs `<block>|<timestamp>|<canonical weights JSON>` with a
+ * sr25519 key. The validator pins the server's public key and only accepts a
+ * `/weights` payload whose signature verifies, that is recent, and whose block
+ * never goes backwards, so a hijacked CDN or DNS entry cannot inject weights.
+ */
+
+import { cryptoWaitReady, decodeAddress, signatureVerify } from '@polkadot/util-crypto';
+import { isHex } from '@polkadot/util';
+import type { Result, WeightsResponse } from './types';
+
+// off: accept unsigned payloads, warn: verify and log failures, enforce: reject failing payloads
+export type SignaturePolicy = 'off' | 'warn' | 'enforce';
+
+export type VerificationFailure = 'unsigned' | 'bad_signature' | 'wrong_signer' | 'stale' | 'future' | 'block_regressed';
+
+export interface VerifyOptions {
+  publicKey: string; // ss58 or hex
+  maxAgeMs: number;
+  // highest block of a previously accepted payload; 0 when none
+  lastBlock: number;
+  now: number;
+  maxClockSkewMs?: number;
+}
+
+export interface PayloadCheck {
+  valid: boolean;
+  reason: VerificationFailure | null;
+  detail: string;
+  block: number | null;
+}
+
+const DEFAULT_MAX_CLOCK_SKEW_MS = 60_000;
+
+/**
+ * Serialize weights with keys in sorted order so the server and the validator
+ * produce the same bytes regardless of object insertion order.
+ */
+export const canonicalWeights = (weights: Record<string, number>): string =>
+    JSON.stringify(Object.fromEntries(Object.entries(weights).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))));
+
+export const buildWeightsMessage = (weights: Record<string, number>, block: number, timestamp: number): string =>
+    `${block}|${timestamp}|${canonicalWeights(weights)}`;
+
+// Validate a configured public key (ss58 or 0x hex) at startup
+export const parsePublicKey = (key: string): Result<Uint8Array | null> => {
+    try {
+        const publicKey = decodeAddress(key);
+        if (publicKey.length !== 32) return [null, new Error(`Expected a 32-byte public key, got ${publicKey.length} bytes`)];
+        return [publicKey, null];
+    } catch (err) {
+        return [null, new Error(`Invalid public key "${key}": ${err instanceof Error ? err.message : String(err)}`)];
+    }
+};
+
+const fail = (reason: VerificationFailure, detail: string, block: number | null = null): PayloadCheck => ({ valid: false, reason, detail, block });
+
+/**
+ * Verify signature, signer, freshness and block monotonicity of a `/weights`
+ * payload. A failed check is reported in the result, not as an error.
+ */
+export async function verifyWeightsPayload(data: WeightsResponse, options: VerifyOptions): Promise<PayloadCheck> {
+    const { signature, block, timestamp } = data;
+    if (!signature || typeof block !== 'number' || typeof timestamp !== 'number') {
+        return fail('unsigned', 'payload is missing signature, block or timestamp');
+    }
+    if (!isHex(signature)) return fail('bad_signature', 'payload signature is not hex', block);
+
+    await cryptoWaitReady();
+    const message = buildWeightsMessage(data.weights, block, timestamp);
+    let result: ReturnType<typeof signatureVerify>;
+    try {
+        result = signatureVerify(message, signature, options.publicKey);
+    } catch (err) {
+        return fail('bad_signature', `signature check failed: ${err instanceof Error ? err.message : String(err)}`, block);
+    }
+    if (!result.isValid) return fail('bad_signature', 'signature does not match the pinned server key', block);
+    if (result.crypto !== 'sr25519') return fail('wrong_signer', `payload signed with ${result.crypto}, expected sr25519`, block);
+
+    const age = options.now - timestamp;
+    const maxSkew = options.maxClockSkewMs ?? DEFAULT_MAX_CLOCK_SKEW_MS;
+    if (age < -maxSkew) return fail('future', `timestamp is ${Math.round(-age / 1000)}s in the future`, block);
+    if (age > options.maxAgeMs) return fail('stale', `payload is ${Math.round(age / 1000)}s old (max ${Math.round(options.maxAgeMs / 1000)}s)`, block);
+    if (block < options.lastBlock) return fail('block_regressed', `block ${block} is older than the last accepted block ${options.lastBlock}`, block);
+    return { valid: true, reason: null, detail: 'ok', block };
+}
@@ -0,0 +1,70 @@
+/**
+ * Block- and rate-limit-aware weight scheduling for the sn77 validator
+ *
+ * Reads `weightsSetRateLimit`, `tempo` and the validator's `lastUpdate` block
+ * to decide whether a new weight submission is allowed and when the next one
+ * will be.
+ */
+
+import type { ApiPromise } from '@polkadot/api';
+import type { Result } from './types';
+
+export const BLOCK_TIME_MS = 12_000;
+
+export interface WeightSchedule {
+  currentBlock: number;
+  validatorUid: number;
+  lastUpdateBlock: number;
+  rateLimit: number;
+  tempo: number;
+  nextEligibleBlock: number;
+  eligible: boolean;
+  blocksUntilEligible: number;
+}
+
+const toNumber = (codec: any): number => codec?.toNumber ? codec.toNumber() : Number(codec?.toString() ?? 0);
+
+// Dispatch errors raised when a submission arrives before the rate limit allows it
+export const isRateLimitError = (err: Error): boolean => /SettingWeightsTooFast|CommittingWeightsTooFast/.test(err.message);
+
+/**
+ * Read the rate limit hyperparameters and the validator's last update.
+ * The chain accepts a submission once `block - lastUpdate >= rateLimit`; the
+ * schedule only reports eligibility from the block it is allowed at, so the
+ * extrinsic always lands at least one block after the limit expires.
+ */
+export async function fetchWeightSchedule(api: ApiPromise, netuid: number, validatorUid: number): Promise<Result<WeightSchedule | null>> {
+    try {
+        const module = api.query.subtensorModule as any;
+        const [header, rateLimitCodec, tempoCodec, lastUpdateCodec] = await Promise.all([
+            api.rpc.chain.getHeader(),
+            module.weightsSetRateLimit(netuid),
+            module.tempo(netuid),
+            module.lastUpdate(netuid),
+        ]);
+
+        const currentBlock = header.number.toNumber();
+        const rateLimit = toNumber(rateLimitCodec);
+        const tempo = toNumber(tempoCodec);
+        const lastUpdates = (lastUpdateCodec as any).toJSON() as Array<number | string> | null;
+        const lastUpdateBlock = Number(lastUpdates?.[validatorUid] ?? 0);
+
+        const nextEligibleBlock = lastUpdateBlock === 0 ? currentBlock : lastUpdateBlock + rateLimit;
+        const blocksUntilEligible = Math.max(0, nextEligibleBlock - currentBlock);
+
+        return [{
+            currentBlock,
+            validatorUid,
+            lastUpdateBlock,
+            rateLimit,
+            tempo,
+            nextEligibleBlock,
+            eligible: blocksUntilEligible === 0,
+            blocksUntilEligible,
+        }, null];
+    } catch (err) {
+        return [null, err instanceof Error ? err : new Error(String(err))];
+    }
+}
+
+export const msUntilEligible = (schedule: WeightSchedule): number => schedule.blocksUntilEligible * BLOCK_TIME_MS;
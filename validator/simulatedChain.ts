@@ -0,0 +1,263 @@
+/**
+ * In-process subtensor for simulated sn77 validator runs
+ *
+ * Implements the part of the `ApiPromise` surface the validator uses: the
+ * `subnetworkN`, `keys`, `keyToUid`/`uids`, `weights`, `lastUpdate`, `tempo`,
+ * `weightsSetRateLimit`, `maxWeightsLimit`, `minAllowedWeights`,
+ * `commitRevealWeightsEnabled`, `weightsVersionKey`, `validatorPermit`,
+ * `stakeThreshold`, `totalHotkeyAlpha` (subnet and root), `taoWeight`,
+ * `childKeys` and `parentKeys` (always empty) storage items,
+ * `chain.getHeader`, `system.accountNextIndex` and the `setWeights` extrinsic
+ * (with `paymentInfo`). Blocks only advance when the scenario says so (and by one
+ * block per included extrinsic), so a run is deterministic. Included extrinsics
+ * are reported in a block and then finalized. Dispatch errors can be queued to
+ * fail the next submissions, and drops to make the pool discard them.
+ */
+
+import type { ApiPromise } from '@polkadot/api';
+import { U16_MAX } from './weightMath';
+
+export interface SimulatedChainOptions {
+  netuid: number;
+  startBlock: number;
+  tempo: number;
+  weightsSetRateLimit: number;
+  maxWeightsLimit: number;
+  minAllowedWeights: number;
+  // TAO
+  stakeThreshold: number;
+  // share of the root stake counted towards the stake threshold
+  taoWeight: number;
+  // minimum version key of weight extrinsics, 0 disables the check
+  weightsVersionKey: number;
+  // hotkey per UID
+  hotkeys: string[];
+}
+
+export interface SimulatedExtrinsic {
+  block: number;
+  method: string;
+  signer: string;
+  txHash: string;
+  nonce: number;
+  // mortality requested by the signer, 0 for immortal
+  era: number | null;
+  // dispatch error name, null when the extrinsic succeeded
+  error: string | null;
+  args: Record<string, unknown>;
+}
+
+// Deterministic 32-byte hashes: a one-byte kind prefix followed by the block or extrinsic number
+const BLOCK_HASH = '0b';
+const TX_HASH = '07';
+const hashOf = (kind: string, n: number): string => `0x${kind}${n.toString(16).padStart(62, '0')}`;
+const toRao = (tao: number): string => BigInt(Math.round(tao * 1e9)).toString();
+const U64_MAX = (1n << 64n) - 1n;
+// partialFee reported by paymentInfo, in rao
+const SIMULATED_FEE = 125_000;
+
+// Minimal codec: the validator only calls toNumber, toJSON, toString and isTrue
+const codec = (value: unknown) => ({
+    toNumber: () => Number(value),
+    toJSON: () => value,
+    toString: () => String(value),
+    toHex: () => String(value),
+    isTrue: value === true,
+});
+
+// Docs of the dispatch errors scenarios are expected to use
+const ERROR_DOCS: Record<string, string> = {
+    SettingWeightsTooFast: 'Rate limit exceeded for setting weights.',
+    WeightVecNotEqualSize: 'The uids and values vectors have different lengths.',
+    DuplicateUids: 'The uids vector contains duplicates.',
+    WeightVecLengthIsLow: 'The weights vector is shorter than the minimum allowed weights.',
+    MaxWeightExceeded: 'A weight exceeds the max weight limit.',
+    UidVecContainInvalidOne: 'A UID in the weights is not registered.',
+    HotKeyNotRegisteredInSubNet: 'The hotkey is not registered on the subnet.',
+    IncorrectWeightVersionKey: 'The weights version key is below the subnet minimum.',
+    NotEnoughStakeToSetWeights: 'The hotkey does not have enough stake to set weights.',
+    NeuronNoValidatorPermit: 'The neuron does not have a validator permit.',
+};
+
+export const createSimulatedChain = (options: SimulatedChainOptions) => {
+    const { netuid } = options;
+    let block = options.startBlock;
+    let hotkeys = [...options.hotkeys];
+    let tempo = options.tempo;
+    let rateLimit = options.weightsSetRateLimit;
+    let maxWeightsLimit = options.maxWeightsLimit;
+    let minAllowedWeights = options.minAllowedWeights;
+    let stakeThreshold = options.stakeThreshold;
+    let taoWeight = options.taoWeight;
+    let weightsVersionKey = options.weightsVersionKey;
+    // Every UID holds a validator permit unless a scenario revokes it
+    const permits: boolean[] = hotkeys.map(() => true);
+    // TAO by hotkey, 0 when unset
+    const stakes = new Map<string, number>();
+    const rootStakes = new Map<string, number>();
+    // Stake weight as subtensor compares it with the threshold (no childkeys here)
+    const stakeWeight = (hotkey: string): number => (stakes.get(hotkey) ?? 0) + (rootStakes.get(hotkey) ?? 0) * taoWeight;
+    const lastUpdate: number[] = hotkeys.map(() => 0);
+    const weights = new Map<number, Array<[number, number]>>();
+    const queuedErrors: string[] = [];
+    const nonces = new Map<string, number>();
+    let queuedDrops = 0;
+    const extrinsics: SimulatedExtrinsic[] = [];
+
+    const uidOf = (hotkey: string): number => hotkeys.indexOf(hotkey);
+    const checkNetuid = (n: number) => {
+        if (Number(n) !== netuid) throw new Error(`Simulated chain only has netuid ${netuid}, got ${n}`);
+    };
+    const header = (n: number) => ({ number: codec(n), hash: codec(hashOf(BLOCK_HASH, n)) });
+
+    // Mirrors subtensor's checks for set_weights, then the queued scenario errors
+    const dispatchSetWeights = (signer: string, uids: number[], values: number[], versionKey: number): string | null => {
+        const uid = uidOf(signer);
+        if (uid < 0) return 'HotKeyNotRegisteredInSubNet';
+        if (weightsVersionKey > 0 && versionKey < weightsVersionKey) return 'IncorrectWeightVersionKey';
+        if (uids.length !== values.length) return 'WeightVecNotEqualSize';
+        if (new Set(uids).size !== uids.length) return 'DuplicateUids';
+        if (uids.some(u => u < 0 || u >= hotkeys.length)) return 'UidVecContainInvalidOne';
+        const isSelfWeight = uids.length === 1 && uids[0] === uid;
+        if (stakeWeight(signer) < stakeThreshold) return 'NotEnoughStakeToSetWeights';
+        if (!isSelfWeight && permits[uid] === false) return 'NeuronNoValidatorPermit';
+        if (!isSelfWeight && uids.length < Math.min(minAllowedWeights, hotkeys.length)) return 'WeightVecLengthIsLow';
+        const total = values.reduce((sum, v) => sum + v, 0);
+        if (!isSelfWeight && maxWeightsLimit < U16_MAX && total > 0 && Math.max(...values) / total > maxWeightsLimit / U16_MAX) return 'MaxWeightExceeded';
+        if (lastUpdate[uid] > 0 && block - lastUpdate[uid] < rateLimit) return 'SettingWeightsTooFast';
+        const queued = queuedErrors.shift();
+        if (queued) return queued;
+
+        // The chain stores rows max-upscaled to u16
+        const max = Math.max(...values, 0);
+        weights.set(uid, uids.map((target, i): [number, number] => [target, max > 0 ? Math.round((values[i] * U16_MAX) / max) : 0]).filter(([, v]) => v > 0));
+        lastUpdate[uid] = block;
+        return null;
+    };
+
+    const extrinsic = (method: string, args: Record<string, unknown>, dispatch: (signer: string) => string | null) => ({
+        method: { section: 'subtensorModule', method },
+        paymentInfo: async () => ({ partialFee: codec(SIMULATED_FEE), weight: codec(0) }),
+        signAndSend: async (pair: { address: string }, options: { nonce?: number; era?: number }, callback: (result: unknown) => void) => {
+            const expected = nonces.get(pair.address) ?? 0;
+            const nonce = options?.nonce === undefined || options.nonce < 0 ? expected : options.nonce;
+            if (nonce < expected) throw new Error('1010: Invalid Transaction: Transaction is outdated');
+            if (queuedDrops > 0) {
+                queuedDrops--;
+                setImmediate(() => callback({ status: { isDropped: true, type: 'Dropped' }, txHash: codec(hashOf(TX_HASH, 0xff)), isError: false }));
+                return () => {};
+            }
+            // Included in the next block, after the caller has subscribed, then finalized
+            setImmediate(() => {
+                block++;
+                nonces.set(pair.address, nonce + 1);
+                const error = dispatch(pair.address);
+                const txHash = hashOf(TX_HASH, extrinsics.length);
+                const blockHash = codec(hashOf(BLOCK_HASH, block));
+                extrinsics.push({ block, method, signer: pair.address, txHash, nonce, era: options?.era ?? null, error, args });
+                const result = {
+                    txHash: codec(txHash),
+                    isError: false,
+                    dispatchError: error ? { isModule: true, asModule: { name: error }, toString: () => error } : undefined,
+                };
+                callback({ ...result, status: { isInBlock: true, isFinalized: false, type: 'InBlock', asInBlock: blockHash } });
+                setImmediate(() => callback({ ...result, status: { isInBlock: false, isFinalized: true, type: 'Finalized', asFinalized: blockHash } }));
+            });
+            return () => {};
+        },
+    });
+
+    const api = {
+        isConnected: true,
+        query: {
+            subtensorModule: {
+                subnetworkN: async (n: number) => { checkNetuid(n); return codec(hotkeys.length); },
+                keys: async (n: number, uid: number) => { checkNetuid(n); return codec(hotkeys[uid] ?? ''); },
+                // ValueQuery: unregistered hotkeys read as 0
+                keyToUid: async (n: number, hotkey: string) => { checkNetuid(n); return codec(Math.max(0, uidOf(hotkey))); },
+                uids: async (n: number, hotkey: string) => { checkNetuid(n); const uid = uidOf(hotkey); return codec(uid < 0 ? null : uid); },
+                weights: async (n: number, uid: number) => { checkNetuid(n); return codec(weights.get(uid) ?? []); },
+                lastUpdate: async (n: number) => { checkNetuid(n); return codec([...lastUpdate]); },
+                tempo: async (n: number) => { checkNetuid(n); return codec(tempo); },
+                weightsSetRateLimit: async (n: number) => { checkNetuid(n); return codec(rateLimit); },
+                maxWeightsLimit: async (n: number) => { checkNetuid(n); return codec(maxWeightsLimit); },
+                minAllowedWeights: async (n: number) => { checkNetuid(n); return codec(minAllowedWeights); },
+                commitRevealWeightsEnabled: async (n: number) => { checkNetuid(n); return codec(false); },
+                weightsVersionKey: async (n: number) => { checkNetuid(n); return codec(weightsVersionKey); },
+                validatorPermit: async (n: number) => { checkNetuid(n); return codec(hotkeys.map((_, uid) => permits[uid] ?? true)); },
+                stakeThreshold: async () => codec(toRao(stakeThreshold)),
+                totalHotkeyAlpha: async (hotkey: string, n: number) => {
+                    if (Number(n) === 0) return codec(toRao(rootStakes.get(hotkey) ?? 0));
+                    checkNetuid(n);
+                    return codec(toRao(stakes.get(hotkey) ?? 0));
+                },
+                taoWeight: async () => codec((BigInt(Math.round(taoWeight * 1e9)) * U64_MAX / 1_000_000_000n).toString()),
+                childKeys: async (_hotkey: string, n: number) => { checkNetuid(n); return codec([]); },
+                parentKeys: async (_hotkey: string, n: number) => { checkNetuid(n); return codec([]); },
+            },
+        },
+        rpc: {
+            system: {
+                accountNextIndex: async (address: string) => codec(nonces.get(address) ?? 0),
+            },
+            chain: {
+                getHeader: async (hash?: string) => {
+                    if (hash === undefined) return header(block);
+                    const hex = String(hash);
+                    const n = parseInt(hex.slice(4), 16);
+                    if (!hex.startsWith(`0x${BLOCK_HASH}`) || !(n <= block)) throw new Error(`Unknown block hash ${hex}`);
+                    return header(n);
+                },
+            },
+        },
+        tx: {
+            subtensorModule: {
+                setWeights: (n: number, uids: number[], values: number[], versionKey: number) => {
+                    checkNetuid(n);
+                    return extrinsic('setWeights', { uids, values, versionKey }, signer => dispatchSetWeights(signer, uids, values, Number(versionKey)));
+                },
+            },
+        },
+        registry: {
+            findMetaError: ({ name }: { name: string }) => ({ section: 'subtensorModule', name, docs: [ERROR_DOCS[name] ?? 'Simulated dispatch error.'] }),
+        },
+        disconnect: async () => {},
+    };
+
+    return {
+        // Only the members above exist; anything else the validator touches fails loudly
+        api: api as unknown as ApiPromise,
+        currentBlock: (): number => block,
+        advanceBlocks: (count: number): void => { block += count; },
+        hotkeys: (): string[] => [...hotkeys],
+        // Register `hotkey` at `uid`, replacing (deregistering) the current owner
+        register: (uid: number, hotkey: string): void => {
+            if (uid > hotkeys.length) throw new Error(`Cannot register UID ${uid}, subnet has ${hotkeys.length} UIDs`);
+            hotkeys = [...hotkeys];
+            hotkeys[uid] = hotkey;
+            lastUpdate[uid] = 0;
+            permits[uid] = true;
+            weights.delete(uid);
+        },
+        setTempo: (value: number): void => { tempo = value; },
+        setRateLimit: (value: number): void => { rateLimit = value; },
+        setWeightLimits: (limits: { maxWeightsLimit?: number; minAllowedWeights?: number }): void => {
+            maxWeightsLimit = limits.maxWeightsLimit ?? maxWeightsLimit;
+            minAllowedWeights = limits.minAllowedWeights ?? minAllowedWeights;
+        },
+        setValidatorPermit: (uid: number, permit: boolean): void => { permits[uid] = permit; },
+        setStake: (hotkey: string, tao: number): void => { stakes.set(hotkey, tao); },
+        setRootStake: (hotkey: string, tao: number): void => { rootStakes.set(hotkey, tao); },
+        setTaoWeight: (value: number): void => { taoWeight = value; },
+        setStakeThreshold: (tao: number): void => { stakeThreshold = tao; },
+        setWeightsVersionKey: (key: number): void => { weightsVersionKey = key; },
+        // Fail the next weight submissions (after the chain's own checks) with these errors
+        queueDispatchErrors: (errors: string[]): void => { queuedErrors.push(...errors); },
+        // Make the pool drop the next submissions before inclusion
+        queueDrops: (count: number): void => { queuedDrops += count; },
+        onChainWeights: (uid: number): Array<[number, number]> => [...(weights.get(uid) ?? [])],
+        extrinsics: (): SimulatedExtrinsic[] => [...extrinsics],
+    };
+};
+
+export type SimulatedChain = ReturnType<typeof createSimulatedChain>;
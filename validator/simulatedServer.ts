@@ -0,0 +1,109 @@
+/**
+ * In-process 77 weights server for simulated sn77 validator runs
+ *
+ * Answers `/weights`, `/allMiners`, `/ping`, `/pools` and `/positions` from the
+ * current scenario step as a `fetch` replacement, so no port is opened. Unless a
+ * step provides its own pools and positions, they are derived from the step's
+ * weights (one voted pool, one position per miner emitting its weight) so the weight audit agrees
+ * with `/weights`.
+ */
+
+import type { AuditPool, AuditPosition } from './weightAudit';
+import type { PingResponse, RegistryMapResponse, WeightsResponse } from './types';
+
+export type SimulatedEndpoint = 'weights' | 'allMiners' | 'ping' | 'pools' | 'positions';
+
+export interface SimulatedServerState {
+  // hotkey -> weight served by /weights
+  weights: Record<string, number>;
+  // registered hotkeys in UID order, served by /allMiners
+  miners: Array<{ hotkeyAddress: string; ethereumAddress: string | null }>;
+  // version /ping reports; compatible when it equals the client version
+  serverVersion: string | null;
+  // endpoints answering 503 in this step
+  down: SimulatedEndpoint[];
+  pools?: AuditPool[];
+  positions?: Record<string, AuditPosition[]>;
+}
+
+export const SIMULATED_SERVER_URL = 'http://sn77.simulation';
+
+const SIMULATED_POOL = '0x0000000000000000000000000000000000000077';
+// Liquidity per unit of weight for the derived positions
+const LIQUIDITY_SCALE = 1e12;
+
+const json = (body: unknown, status = 200): Response =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const derivePositions = (weights: Record<string, number>): Record<string, AuditPosition[]> => Object.fromEntries(
+    Object.entries(weights)
+        .filter(([, w]) => w > 0)
+        .map(([hotkey, w]) => [hotkey, [{
+            id: `${hotkey}-0`,
+            pool: { id: SIMULATED_POOL, tick: '0' },
+            tickLower: { tickIdx: '-100' },
+            tickUpper: { tickIdx: '100' },
+            liquidity: String(Math.round(w * LIQUIDITY_SCALE)),
+            emission: w,
+        }]]),
+);
+
+/**
+ * Create a handler for requests to SIMULATED_SERVER_URL. `state` is read on every
+ * request; `onRequest` sees every handled endpoint (e.g. for the run report).
+ */
+export const createSimulatedServer = (state: () => SimulatedServerState, onRequest?: (endpoint: SimulatedEndpoint, status: number) => void) => {
+    const respond = async (endpoint: SimulatedEndpoint, init?: RequestInit): Promise<Response> => {
+        const current = state();
+        if (current.down.includes(endpoint)) {
+            return new Response('Service Unavailable (simulated)', { status: 503, statusText: 'Service Unavailable' });
+        }
+
+        switch (endpoint) {
+            case 'weights': {
+                const body: WeightsResponse = { success: true, weights: current.weights, cached: false };
+                return json(body);
+            }
+            case 'allMiners': {
+                const body: RegistryMapResponse = {
+                    success: true,
+                    miners: current.miners,
+                    totalMiners: current.miners.length,
+                    linkedMiners: current.miners.filter(m => m.ethereumAddress).length,
+                };
+                return json(body);
+            }
+            case 'ping': {
+                // The validator signs `<block>|<version>`; the signature itself is not checked
+                const { message } = JSON.parse(String(init?.body ?? '{}')) as { message?: string };
+                const clientVersion = message?.split('|')[1] ?? '';
+                const serverVersion = current.serverVersion ?? clientVersion;
+                const body: PingResponse = {
+                    success: true,
+                    message: 'pong',
+                    serverVersion,
+                    clientVersion,
+                    versionCompatible: serverVersion === clientVersion,
+                };
+                return json(body);
+            }
+            case 'pools':
+                return json({ success: true, pools: current.pools ?? [{ address: SIMULATED_POOL, totalWeight: 10000 }] });
+            case 'positions':
+                return json({ success: true, positions: current.positions ?? derivePositions(current.weights) });
+        }
+    };
+
+    return {
+        fetch: async (url: string, init?: RequestInit): Promise<Response> => {
+            const { pathname } = new URL(url);
+            const endpoint = pathname.replace(/^\/+/, '') as SimulatedEndpoint;
+            if (!['weights', 'allMiners', 'ping', 'pools', 'positions'].includes(endpoint)) {
+                return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+            }
+            const response = await respond(endpoint, init);
+            onRequest?.(endpoint, response.status);
+            return response;
+        },
+    };
+};
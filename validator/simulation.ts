@@ -0,0 +1,284 @@
+/**
+ * Offline simulation for the sn77 validator
+ *
+ * A scenario file (YAML or JSON) describes the subnet and a list of steps. With
+ * `simulation.scenario` set, the validator talks to an in-process subtensor
+ * (simulatedChain.ts) and weights server (simulatedServer.ts) instead of finney
+ * and the production server, consumes one step per main loop iteration without
+ * waiting, and shuts down with exit code 0 after the last step. Every other
+ * outgoing request is refused. A report of the submitted extrinsics and the final
+ * on-chain weights is written when the run ends.
+ *
+ * Steps apply in order and each one may:
+ * - change the served weights (kept for later steps until changed again)
+ * - register hotkeys at UIDs, replacing (deregistering) the previous owner
+ * - queue dispatch errors for the next weight submissions, or drops from the pool
+ * - take server endpoints down, change the server version or the chain's hyperparameters
+ * - revoke or restore the validator's permit and change its stake, root stake,
+ *   the TAO weight or the stake threshold
+ * - drop the websocket connection
+ */
+
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { Keyring } from '@polkadot/keyring';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import type { ApiPromise } from '@polkadot/api';
+import type { ConnectionManager } from '../utils/connectionManager';
+import { getLogger } from '../utils/logger';
+import { createSimulatedChain, type SimulatedChain, type SimulatedExtrinsic } from './simulatedChain';
+import { SIMULATED_SERVER_URL, createSimulatedServer, type SimulatedEndpoint, type SimulatedServerState } from './simulatedServer';
+import type { Result } from './types';
+
+const log = getLogger('simulation');
+
+const SIMULATED_ENDPOINT_URL = 'simulation://subtensor';
+
+const registration = z.object({
+    uid: z.number().int().min(0),
+    hotkey: z.string().min(1),
+    evm: z.string().nullable().default(null),
+}).strict();
+
+const stepSchema = z.object({
+    // apply this step to this many consecutive iterations
+    repeat: z.number().int().positive().default(1),
+    // blocks produced before the step, defaults to chain.blocksPerStep
+    blocks: z.number().int().min(0).optional(),
+    weights: z.record(z.number().min(0)).optional(),
+    register: z.array(registration).default([]),
+    dispatchErrors: z.array(z.string().min(1)).default([]),
+    // submissions the pool drops before inclusion
+    dropTransactions: z.number().int().min(0).default(0),
+    serverDown: z.array(z.enum(['weights', 'allMiners', 'ping', 'pools', 'positions'])).default([]),
+    // null makes the server report the client's version again
+    serverVersion: z.string().nullable().optional(),
+    weightsSetRateLimit: z.number().int().min(0).optional(),
+    maxWeightsLimit: z.number().int().min(0).max(65535).optional(),
+    minAllowedWeights: z.number().int().min(0).optional(),
+    tempo: z.number().int().positive().optional(),
+    // the validator's own permit, subnet and root stake (TAO), and the chain's weights stake threshold (TAO)
+    validatorPermit: z.boolean().optional(),
+    validatorStake: z.number().min(0).optional(),
+    validatorRootStake: z.number().min(0).optional(),
+    taoWeight: z.number().min(0).max(1).optional(),
+    stakeThreshold: z.number().min(0).optional(),
+    // minimum version key of weight extrinsics (1000 * major + 10 * minor + patch)
+    weightsVersionKey: z.number().int().min(0).optional(),
+    disconnect: z.boolean().default(false),
+    // raw audit inputs; derived from the weights when omitted
+    pools: z.array(z.object({ address: z.string(), totalWeight: z.number() })).optional(),
+    positions: z.record(z.array(z.any())).optional(),
+}).strict();
+
+const scenarioSchema = z.object({
+    name: z.string().regex(/^[\w-]+$/, 'only letters, digits, - and _').optional(),
+    validator: z.object({
+        // development keys only; the scenario never sees the configured hotkey
+        uri: z.string().default('//Alice'),
+        // defaults to the UID after the miners; UID 0 reads as unregistered through keyToUid
+        uid: z.number().int().min(1).optional(),
+        // TAO staked on the validator hotkey on the subnet and on root
+        stake: z.number().min(0).default(1000),
+        rootStake: z.number().min(0).default(0),
+    }).strict().default({}),
+    chain: z.object({
+        startBlock: z.number().int().positive().default(1000),
+        // ~5 minutes of 12s blocks, the default loop delay
+        blocksPerStep: z.number().int().min(0).default(25),
+        tempo: z.number().int().positive().default(360),
+        weightsSetRateLimit: z.number().int().min(0).default(100),
+        // 65535 disables the limit
+        maxWeightsLimit: z.number().int().min(0).max(65535).default(65535),
+        minAllowedWeights: z.number().int().min(0).default(1),
+        // TAO a hotkey needs to set weights, compared with its stake plus its root stake times taoWeight
+        stakeThreshold: z.number().min(0).default(0),
+        taoWeight: z.number().min(0).max(1).default(0.18),
+        // 0 disables the version key check
+        weightsVersionKey: z.number().int().min(0).default(0),
+    }).strict().default({}),
+    // registered miners in UID order
+    miners: z.array(z.union([z.string().min(1), z.object({ hotkey: z.string().min(1), evm: z.string().nullable().default(null) }).strict()])).min(1),
+    steps: z.array(stepSchema).min(1),
+}).strict();
+
+export type Scenario = z.infer<typeof scenarioSchema> & { name: string };
+export type ScenarioStep = z.infer<typeof stepSchema>;
+
+export interface SimulationReport {
+  scenario: string;
+  steps: number;
+  validator: { hotkey: string; uid: number };
+  finalBlock: number;
+  extrinsics: SimulatedExtrinsic[];
+  // final on-chain weight row of the validator, u16 by target UID
+  onChainWeights: Record<string, number>;
+  requests: Record<string, { ok: number; failed: number }>;
+}
+
+export function loadScenario(file: string): Result<Scenario | null> {
+    let parsed: unknown;
+    try {
+        const text = readFileSync(file, 'utf8');
+        parsed = file.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+    } catch (err) {
+        return [null, new Error(`Cannot read scenario ${file}: ${err instanceof Error ? err.message : String(err)}`)];
+    }
+    const result = scenarioSchema.safeParse(parsed);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n');
+        return [null, new Error(`Invalid scenario ${file}:\n${issues}`)];
+    }
+    const name = result.data.name ?? path.basename(file).replace(/\.[^.]+$/, '').replace(/[^\w-]/g, '_');
+    return [{ ...result.data, name }, null];
+}
+
+export const createSimulation = (scenario: Scenario, netuid: number) => {
+    // One entry per iteration
+    const steps = scenario.steps.flatMap(step => Array.from({ length: step.repeat }, () => step));
+    const miners = scenario.miners.map(m => (typeof m === 'string' ? { hotkey: m, evm: null } : m));
+    const evmAddresses = new Map(miners.map(m => [m.hotkey, m.evm]));
+    let stepIndex = -1;
+    let serverState: SimulatedServerState = { weights: {}, miners: [], serverVersion: null, down: [] };
+    let chain: SimulatedChain | null = null;
+    let validator: { hotkey: string; uid: number } | null = null;
+    let setup: Promise<SimulatedChain> | null = null;
+    const requests: SimulationReport['requests'] = {};
+    const connectedListeners: Array<(api: ApiPromise, url: string, isReconnect: boolean) => void> = [];
+    const disconnectedListeners: Array<(url: string) => void> = [];
+
+    // The validator address needs the sr25519 wasm, so the chain is built on first connect
+    const start = async (): Promise<SimulatedChain> => {
+        await cryptoWaitReady();
+        const hotkey = new Keyring({ type: 'sr25519' }).addFromUri(scenario.validator.uri).address;
+        const uid = scenario.validator.uid ?? miners.length;
+        if (uid > miners.length) throw new Error(`validator.uid ${uid} leaves a gap after ${miners.length} miners`);
+        const hotkeys = miners.map(m => m.hotkey);
+        hotkeys.splice(uid, 0, hotkey);
+        validator = { hotkey, uid };
+        chain = createSimulatedChain({ netuid, ...scenario.chain, hotkeys });
+        chain.setStake(hotkey, scenario.validator.stake);
+        chain.setRootStake(hotkey, scenario.validator.rootStake);
+        refreshRegistry();
+        log.notify(`Simulation ${scenario.name}: ${steps.length} steps, validator ${hotkey} at UID ${uid}, ${hotkeys.length} UIDs`);
+        return chain;
+    };
+
+    const refreshRegistry = () => {
+        serverState.miners = chain!.hotkeys().map(hotkey => ({ hotkeyAddress: hotkey, ethereumAddress: evmAddresses.get(hotkey) ?? null }));
+    };
+
+    const applyStep = (step: ScenarioStep) => {
+        if (!chain) throw new Error('Simulation not started');
+        for (const { uid, hotkey, evm } of step.register) {
+            chain.register(uid, hotkey);
+            evmAddresses.set(hotkey, evm);
+            log.notify(`Simulation: ${hotkey} registered at UID ${uid}`);
+        }
+        if (step.weightsSetRateLimit !== undefined) chain.setRateLimit(step.weightsSetRateLimit);
+        if (step.tempo !== undefined) chain.setTempo(step.tempo);
+        chain.setWeightLimits({ maxWeightsLimit: step.maxWeightsLimit, minAllowedWeights: step.minAllowedWeights });
+        if (step.validatorPermit !== undefined) chain.setValidatorPermit(validator!.uid, step.validatorPermit);
+        if (step.validatorStake !== undefined) chain.setStake(validator!.hotkey, step.validatorStake);
+        if (step.validatorRootStake !== undefined) chain.setRootStake(validator!.hotkey, step.validatorRootStake);
+        if (step.taoWeight !== undefined) chain.setTaoWeight(step.taoWeight);
+        if (step.stakeThreshold !== undefined) chain.setStakeThreshold(step.stakeThreshold);
+        if (step.weightsVersionKey !== undefined) chain.setWeightsVersionKey(step.weightsVersionKey);
+        chain.queueDispatchErrors(step.dispatchErrors);
+        chain.queueDrops(step.dropTransactions);
+        serverState = {
+            ...serverState,
+            weights: step.weights ?? serverState.weights,
+            serverVersion: step.serverVersion === undefined ? serverState.serverVersion : step.serverVersion,
+            down: step.serverDown,
+            pools: step.pools,
+            positions: step.positions,
+        };
+        refreshRegistry();
+        if (step.disconnect) {
+            // Reconnects immediately; the validator sees a disconnect followed by a reconnect
+            disconnectedListeners.forEach(cb => cb(SIMULATED_ENDPOINT_URL));
+            connectedListeners.forEach(cb => cb(chain!.api, SIMULATED_ENDPOINT_URL, true));
+        }
+    };
+
+    const server = createSimulatedServer(() => serverState, (endpoint: SimulatedEndpoint, status: number) => {
+        const counts = requests[endpoint] ?? (requests[endpoint] = { ok: 0, failed: 0 });
+        if (status < 400) counts.ok++;
+        else counts.failed++;
+    });
+
+    const connectionManager: ConnectionManager = {
+        getApi: async () => {
+            const isNew = !setup;
+            if (!setup) setup = start();
+            const simulatedChain = await setup;
+            if (isNew) connectedListeners.forEach(cb => cb(simulatedChain.api, SIMULATED_ENDPOINT_URL, false));
+            return simulatedChain.api;
+        },
+        current: () => chain?.api ?? null,
+        currentEndpoint: () => (chain ? SIMULATED_ENDPOINT_URL : null),
+        onConnected: cb => { connectedListeners.push(cb); },
+        onDisconnected: cb => { disconnectedListeners.push(cb); },
+        checkHealth: async () => [{ url: SIMULATED_ENDPOINT_URL, ok: true, blockNumber: chain?.currentBlock() ?? 0, latencyMs: 0 }],
+        startHealthChecks: () => {},
+        close: async () => {},
+    };
+
+    const report = (): SimulationReport => ({
+        scenario: scenario.name,
+        steps: Math.max(0, Math.min(stepIndex, steps.length)),
+        validator: validator ?? { hotkey: '', uid: -1 },
+        finalBlock: chain?.currentBlock() ?? 0,
+        extrinsics: chain?.extrinsics() ?? [],
+        onChainWeights: Object.fromEntries((chain && validator ? chain.onChainWeights(validator.uid) : []).map(([uid, w]) => [uid.toString(), w])),
+        requests,
+    });
+
+    return {
+        connectionManager,
+        validatorUri: scenario.validator.uri,
+
+        /**
+         * Route requests to the simulated server and refuse every other outgoing
+         * request (alert webhooks, mirrors), so a run never leaves the process.
+         */
+        installFetch: (): void => {
+            globalThis.fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+                const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+                if (url.startsWith(`${SIMULATED_SERVER_URL}/`)) return server.fetch(url, init);
+                throw new Error(`Request to ${new URL(url).origin} blocked during simulation`);
+            };
+        },
+
+        /**
+         * Move to the next step: produce its blocks and apply its changes. Returns
+         * false once every step has been consumed.
+         */
+        advance: (): boolean => {
+            if (!chain) throw new Error('Simulation not started');
+            stepIndex++;
+            if (stepIndex >= steps.length) return false;
+            const step = steps[stepIndex];
+            if (stepIndex > 0) chain.advanceBlocks(step.blocks ?? scenario.chain.blocksPerStep);
+            applyStep(step);
+            log.notify(`Simulation step ${stepIndex + 1}/${steps.length} at block ${chain.currentBlock()}`);
+            return true;
+        },
+
+        report,
+
+        writeReport: async (file: string): Promise<Error | null> => {
+            try {
+                await fs.writeFile(file, JSON.stringify(report(), null, 2));
+                return null;
+            } catch (err) {
+                return err instanceof Error ? err : new Error(String(err));
+            }
+        },
+    };
+};
+
+export type Simulation = ReturnType<typeof createSimulation>;
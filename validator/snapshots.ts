@@ -0,0 +1,78 @@
+/**
+ * Weight snapshots for the sn77 validator
+ *
+ * Every iteration the combined source weights (before EMA smoothing) are written
+ * to `logs/snapshots/<timestamp>.json` in the same `{ weights, timestamp }` format
+ * as `logs/weights/`. The backtest replays them to tune EMA_ALPHA and the intervals.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Result } from './types';
+
+export interface WeightSnapshot {
+  timestamp: string;
+  weights: Record<string, number>;
+}
+
+export async function writeWeightSnapshot(dir: string, weights: Record<string, number>, now = Date.now()): Promise<Error | null> {
+    try {
+        await fs.mkdir(dir, { recursive: true });
+        const timestamp = new Date(now).toISOString();
+        const snapshot: WeightSnapshot = { timestamp, weights };
+        await fs.writeFile(path.join(dir, `${timestamp.replace(/[:.]/g, '-')}.json`), JSON.stringify(snapshot));
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err : new Error(String(err));
+    }
+}
+
+const isSnapshotFile = (name: string) => name.endsWith('.json') && !name.endsWith('.diff.json');
+
+/**
+ * Load every snapshot in `dir`, oldest first. Files without a weights object or
+ * a parsable timestamp are skipped and reported in the second element.
+ */
+export async function loadWeightSnapshots(dir: string): Promise<Result<{ snapshots: WeightSnapshot[]; skipped: string[] }>> {
+    let names: string[];
+    try {
+        names = (await fs.readdir(dir)).filter(isSnapshotFile);
+    } catch (err) {
+        return [{ snapshots: [], skipped: [] }, err instanceof Error ? err : new Error(String(err))];
+    }
+
+    const snapshots: WeightSnapshot[] = [];
+    const skipped: string[] = [];
+    for (const name of names) {
+        try {
+            const parsed = JSON.parse(await fs.readFile(path.join(dir, name), 'utf-8')) as Partial<WeightSnapshot>;
+            if (!parsed.weights || typeof parsed.weights !== 'object' || !parsed.timestamp || isNaN(Date.parse(parsed.timestamp))) {
+                skipped.push(name);
+                continue;
+            }
+            snapshots.push({ timestamp: parsed.timestamp, weights: parsed.weights });
+        } catch {
+            skipped.push(name);
+        }
+    }
+    snapshots.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    return [{ snapshots, skipped }, null];
+}
+
+// Delete snapshots older than maxAgeMs; returns the number of removed files
+export async function pruneWeightSnapshots(dir: string, maxAgeMs: number, now = Date.now()): Promise<Result<number>> {
+    try {
+        let removed = 0;
+        for (const name of (await fs.readdir(dir)).filter(isSnapshotFile)) {
+            const file = path.join(dir, name);
+            const stat = await fs.stat(file);
+            if (now - stat.mtimeMs > maxAgeMs) {
+                await fs.unlink(file);
+                removed++;
+            }
+        }
+        return [removed, null];
+    } catch (err) {
+        return [0, err instanceof Error ? err : new Error(String(err))];
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Durable validator state for the sn77 validator
+ *
+ * EMA weights, the last weight-set block/tx and the last version check are saved
+ * after every iteration and restored on startup, so restarts (including
+ * auto-update exits) do not reset the EMA.
+ */
+
+import { promises as fs } from 'fs';
+import type { Result } from './types';
+
+export const STATE_VERSION = 1;
+
+export interface EmaEntry {
+  hotkey: string;
+  weight: number;
+}
+
+export interface ValidatorState {
+  version: number;
+  netuid: number;
+  validatorHotkey: string;
+  savedAt: number;
+  // keyed by UID; the hotkey lets recycled UIDs be detected after a restart
+  emaWeights: Record<string, EmaEntry>;
+  lastSetTime: number;
+  lastSetBlock: number;
+  lastTxHash: string | null;
+  lastVersionCheck: number;
+}
+
+export async function loadValidatorState(filePath: string): Promise<Result<ValidatorState | null>> {
+    let data: string;
+    try {
+        data = await fs.readFile(filePath, 'utf-8');
+    } catch {
+        return [null, null]; // no saved state yet
+    }
+    try {
+        return [JSON.parse(data) as ValidatorState, null];
+    } catch (err) {
+        return [null, new Error(`Corrupt validator state file ${filePath}: ${err instanceof Error ? err.message : String(err)}`)];
+    }
+}
+
+// Write to a temp file and rename so a crash mid-write never leaves a truncated state file
+export async function saveValidatorState(filePath: string, state: ValidatorState): Promise<Error | null> {
+    const tmpPath = `${filePath}.tmp`;
+    try {
+        await fs.writeFile(tmpPath, JSON.stringify(state, null, 2));
+        await fs.rename(tmpPath, filePath);
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err : new Error(String(err));
+    }
+}
+
+/**
+ * Returns the reason the saved state must not be restored, or null when it is usable.
+ */
+export const getStateRejectReason = (
+    state: ValidatorState,
+    expected: { netuid: number; validatorHotkey: string; maxAgeMs: number; now: number },
+): string | null => {
+    if (state.version !== STATE_VERSION) return `state version ${state.version} != ${STATE_VERSION}`;
+    if (state.netuid !== expected.netuid) return `state is for netuid ${state.netuid}`;
+    if (state.validatorHotkey !== expected.validatorHotkey) return `state belongs to hotkey ${state.validatorHotkey}`;
+    const age = expected.now - state.savedAt;
+    if (!isFinite(age) || age < 0) return 'state has an invalid timestamp';
+    if (age > expected.maxAgeMs) return `state is stale (${Math.round(age / 60000)}m old)`;
+    return null;
+};
+
+/**
+ * Drop EMA entries whose UID is now held by a different hotkey (deregistered and
+ * re-registered miners must not inherit the previous owner's EMA).
+ * Returns the UIDs that were dropped.
+ */
+export const pruneRecycledUids = (
+    emaWeights: Record<string, number>,
+    emaHotkeys: Record<string, string>,
+    uidToHotkey: string[],
+): string[] => {
+    const dropped: string[] = [];
+    for (const uid of Object.keys(emaWeights)) {
+        const chainHotkey = uidToHotkey[Number(uid)];
+        const known = emaHotkeys[uid];
+        if (known && chainHotkey && known !== chainHotkey) {
+            delete emaWeights[uid];
+            delete emaHotkeys[uid];
+            dropped.push(uid);
+        } else if (!known && chainHotkey) {
+            emaHotkeys[uid] = chainHotkey;
+        }
+    }
+    return dropped;
+};
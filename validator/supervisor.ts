@@ -0,0 +1,131 @@
+/**
+ * Supervisor for the sn77 validator
+ *
+ * Runs `validator/index.ts` as a child process and restarts it: immediately after
+ * an auto-update (EXIT_CODE_RESTART), with backoff after a crash or a failed
+ * initialization (EXIT_CODE_INIT_FAILED, e.g. an unreachable subtensor). When a
+ * freshly updated version crashes before confirming its first iteration, the
+ * previous checkout is restored before restarting. A clean exit (0), an expired
+ * version incompatibility window (EXIT_CODE_VERSION_TIMEOUT) and an invalid
+ * configuration or validator key (EXIT_CODE_CONFIG_INVALID) stop the supervisor,
+ * unless the failure came from an update that was rolled back.
+ *
+ * Usage: bun run validator/supervisor.ts
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import path from 'path';
+import dotenv from 'dotenv';
+import { getLogger, initLogger } from '../utils/logger';
+import { EXIT_CODE_CONFIG_INVALID, EXIT_CODE_VERSION_TIMEOUT } from './lifecycle';
+import { EXIT_CODE_RESTART, loadUpdateState, rollback, saveUpdateState } from './updater';
+
+dotenv.config();
+
+const logDir = path.join(__dirname, '..', 'logs');
+initLogger({ name: 'supervisor', dir: logDir });
+const log = getLogger('supervisor');
+
+const REPO_DIR = path.join(__dirname, '..');
+const VALIDATOR_ENTRY = path.join(__dirname, 'index.ts');
+const UPDATE_STATE_FILE = path.join(logDir, 'update-state.json');
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+const MIN_RESTART_DELAY_MS = 5_000;
+const MAX_RESTART_DELAY_MS = 5 * 60 * 1000;
+// A child that ran this long is considered healthy and resets the backoff
+const STABLE_RUN_MS = 10 * 60 * 1000;
+
+let child: ChildProcess | null = null;
+let stopping = false;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Start the validator with the same runtime and loader flags as the supervisor
+const startValidator = (): Promise<number | null> => new Promise(resolve => {
+    child = spawn(process.execPath, [...process.execArgv, VALIDATOR_ENTRY], {
+        cwd: REPO_DIR,
+        stdio: 'inherit',
+        env: { ...process.env, SN77_SUPERVISED: 'true' },
+    });
+    child.on('exit', (code, signal) => {
+        child = null;
+        if (signal) log.warn(`Validator terminated by ${signal}`);
+        resolve(code);
+    });
+    child.on('error', err => {
+        log.error('Failed to start validator:', err);
+        child = null;
+        resolve(null);
+    });
+});
+
+// Restore the previous checkout when an unconfirmed update crashes; true when rolled back
+const rollbackUnconfirmedUpdate = async (): Promise<boolean> => {
+    const state = await loadUpdateState(UPDATE_STATE_FILE);
+    if (state?.status !== 'applied') return false;
+    log.error(`Version ${state.toVersion} crashed before confirming an iteration`);
+    const rollbackErr = await rollback(REPO_DIR, state.previousRef, COMMAND_TIMEOUT_MS);
+    if (rollbackErr) {
+        log.error(`Rollback to ${state.previousRef} failed:`, rollbackErr);
+        return false;
+    }
+    const saveErr = await saveUpdateState(UPDATE_STATE_FILE, {
+        ...state,
+        status: 'rolled_back',
+        updatedAt: Date.now(),
+        failedVersions: [...state.failedVersions, state.toVersion],
+    });
+    if (saveErr) log.error('Failed to save update state:', saveErr);
+    return true;
+};
+
+const forwardSignal = (signal: NodeJS.Signals) => {
+    stopping = true;
+    log.notify(`Received ${signal}, stopping validator...`);
+    if (child) child.kill(signal);
+    else process.exit(0);
+};
+
+async function main(): Promise<void> {
+    process.on('SIGINT', () => forwardSignal('SIGINT'));
+    process.on('SIGTERM', () => forwardSignal('SIGTERM'));
+
+    let restartDelayMs = MIN_RESTART_DELAY_MS;
+    while (!stopping) {
+        const startedAt = Date.now();
+        log.notify('Starting validator...');
+        const code = await startValidator();
+        if (stopping) break;
+
+        if (code === 0) {
+            log.notify('Validator exited cleanly, supervisor stopping');
+            break;
+        }
+        if (code === EXIT_CODE_VERSION_TIMEOUT) {
+            log.error('Validator version is incompatible with the server, update manually. Supervisor stopping');
+            break;
+        }
+        if (code === EXIT_CODE_RESTART) {
+            log.notify('Validator requested a restart');
+            restartDelayMs = MIN_RESTART_DELAY_MS;
+            continue;
+        }
+
+        const rolledBack = await rollbackUnconfirmedUpdate();
+        if (code === EXIT_CODE_CONFIG_INVALID && !rolledBack) {
+            // Restarting does not fix a configuration or signer error
+            log.error('Validator configuration or key is invalid, fix it and restart the validator. Supervisor stopping');
+            break;
+        }
+        if (Date.now() - startedAt >= STABLE_RUN_MS) restartDelayMs = MIN_RESTART_DELAY_MS;
+        log.error(`Validator exited with code ${code}, restarting in ${Math.round(restartDelayMs / 1000)}s`);
+        await delay(restartDelayMs);
+        restartDelayMs = Math.min(restartDelayMs * 2, MAX_RESTART_DELAY_MS);
+    }
+    process.exit(0);
+}
+
+main().catch(err => {
+    log.error('Supervisor failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,224 @@
+/**
+ * Extrinsic submission for the sn77 validator
+ *
+ * Signs and submits extrinsics and follows them until they are in a block
+ * (`inclusion`) or finalized (`finality`):
+ * - nonces are tracked locally, so back-to-back submissions (e.g. a reveal followed
+ *   by a commit) do not reuse a nonce the pool has not reported yet
+ * - extrinsics are mortal for `eraPeriod` blocks (0 submits immortal ones), so a
+ *   lost transaction cannot be included long after it was given up on
+ * - the fee is estimated with `paymentInfo` before submission
+ * - a transaction the pool drops, rejects as invalid or replaces (usurped) is
+ *   resubmitted with a fresh nonce, up to `maxAttempts` submissions
+ * Dispatch errors are not retried; they fail with `<section>.<name>: <docs>`.
+ * Every receipt is appended to `receiptLog` as one JSON line.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ApiPromise } from '@polkadot/api';
+import type { SubmittableExtrinsic } from '@polkadot/api/types';
+import type { KeyringPair } from '@polkadot/keyring/types';
+import type { ISubmittableResult } from '@polkadot/types/types';
+import { getLogger } from '../utils/logger';
+import type { Result } from './types';
+
+export type TxWaitFor = 'inclusion' | 'finality';
+
+export interface TxManagerOptions {
+  api: () => ApiPromise | null;
+  signer: () => KeyringPair | null;
+  waitFor: TxWaitFor;
+  // mortality in blocks, 0 for immortal extrinsics
+  eraPeriod: number;
+  // per submission attempt
+  timeoutMs: number;
+  maxAttempts: number;
+  // JSONL file receiving every receipt, none when empty
+  receiptLog: string;
+  // lets a shutdown wait for an extrinsic in flight
+  track: <T>(name: string, promise: Promise<T>) => Promise<T>;
+  isShuttingDown: () => boolean;
+}
+
+export interface TxReceipt {
+  // <section>.<method>
+  method: string;
+  signer: string;
+  txHash: string;
+  blockHash: string;
+  blockNumber: number;
+  finalized: boolean;
+  nonce: number;
+  // null for immortal extrinsics
+  era: { period: number; birthBlock: number } | null;
+  // estimated with paymentInfo, in rao; null when the estimate failed
+  fee: string | null;
+  attempts: number;
+  submittedAt: string;
+  includedAt: string;
+}
+
+const log = getLogger('tx');
+
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)));
+
+interface Inclusion {
+  txHash: string;
+  blockHash: string;
+  finalized: boolean;
+}
+
+// One submission attempt; `retry` marks failures that warrant a resubmission
+type AttemptResult = { inclusion: Inclusion; error: null; retry: false } | { inclusion: null; error: Error; retry: boolean };
+
+const failed = (message: string, retry: boolean): AttemptResult => ({ inclusion: null, error: new Error(message), retry });
+const included = (inclusion: Inclusion): AttemptResult => ({ inclusion, error: null, retry: false });
+
+export const createTxManager = (opts: TxManagerOptions) => {
+    // Next nonce per signer address, as far as this process knows
+    const nextNonce = new Map<string, number>();
+
+    const nonceFor = async (api: ApiPromise, address: string): Promise<number> => {
+        const chainNonce = (await api.rpc.system.accountNextIndex(address)).toNumber();
+        return Math.max(chainNonce, nextNonce.get(address) ?? 0);
+    };
+
+    const estimateFee = async (tx: SubmittableExtrinsic<'promise'>, pair: KeyringPair): Promise<string | null> => {
+        try {
+            const info = await tx.paymentInfo(pair);
+            return info.partialFee.toString();
+        } catch (err) {
+            log.warn(`Fee estimate for ${tx.method.section}.${tx.method.method} failed:`, err);
+            return null;
+        }
+    };
+
+    const decodeDispatchError = (api: ApiPromise, result: ISubmittableResult): string => {
+        const dispatchError = result.dispatchError!;
+        if (!dispatchError.isModule) return dispatchError.toString();
+        const decoded = api.registry.findMetaError(dispatchError.asModule);
+        return `${decoded.section}.${decoded.name}: ${decoded.docs.join(' ')}`;
+    };
+
+    const attempt = (api: ApiPromise, tx: SubmittableExtrinsic<'promise'>, pair: KeyringPair, nonce: number): Promise<AttemptResult> =>
+        new Promise(resolve => {
+            let unsubscribe: (() => void) | null = null;
+            let settled = false;
+            let inBlock: Inclusion | null = null;
+            const settle = (result: AttemptResult) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timeoutId);
+                unsubscribe?.();
+                resolve(result);
+            };
+            // Still in the pool or in an unfinalized block; the era bounds how long it can land
+            const timeoutId = setTimeout(() => settle(inBlock
+                ? included(inBlock)
+                : failed(`Transaction not included within ${Math.round(opts.timeoutMs / 1000)}s`, false)), opts.timeoutMs);
+
+            tx.signAndSend(pair, { nonce, era: opts.eraPeriod }, (result: ISubmittableResult) => {
+                const { status } = result;
+                if (status.isInBlock || status.isFinalized) {
+                    if (result.dispatchError) {
+                        settle(failed(decodeDispatchError(api, result), false));
+                        return;
+                    }
+                    const blockHash = (status.isInBlock ? status.asInBlock : status.asFinalized).toHex();
+                    inBlock = { txHash: result.txHash.toHex(), blockHash, finalized: status.isFinalized };
+                    if (status.isFinalized || opts.waitFor === 'inclusion') settle(included(inBlock));
+                } else if (status.isRetracted) {
+                    // The block was reorganized away; the extrinsic goes back to the pool
+                    inBlock = null;
+                } else if (status.isFinalityTimeout && inBlock) {
+                    log.warn(`Block ${inBlock.blockHash} was not finalized in time, returning the unfinalized inclusion`);
+                    settle(included(inBlock));
+                } else if (status.isDropped || status.isInvalid || status.isUsurped) {
+                    settle(failed(`Transaction ${status.type.toLowerCase()} by the pool`, true));
+                }
+            }).then(unsub => {
+                unsubscribe = unsub;
+                if (settled) unsub();
+            }, err => {
+                // Pool rejections at submission (stale or future nonce, priority) are retried with a fresh nonce
+                const message = toError(err).message;
+                settle(failed(message, /^1010|^1014|Invalid Transaction|Priority is too low/.test(message)));
+            });
+        });
+
+    const appendReceipt = async (receipt: TxReceipt) => {
+        if (!opts.receiptLog) return;
+        try {
+            await fs.mkdir(path.dirname(opts.receiptLog), { recursive: true });
+            await fs.appendFile(opts.receiptLog, JSON.stringify(receipt) + '\n');
+        } catch (err) {
+            log.warn('Failed to persist transaction receipt:', err);
+        }
+    };
+
+    /**
+     * Submit the extrinsic returned by `build` (called again for every attempt)
+     * and wait for its inclusion or finality.
+     */
+    const submit = async (build: (api: ApiPromise) => SubmittableExtrinsic<'promise'>): Promise<Result<TxReceipt | null>> => {
+        if (opts.isShuttingDown()) return [null, new Error('Validator is shutting down, not submitting')];
+        const api = opts.api();
+        const pair = opts.signer();
+        if (!api || !pair) return [null, new Error('Bittensor API not initialized')];
+
+        let lastErr: Error = new Error('Transaction not submitted');
+        for (let attempts = 1; attempts <= opts.maxAttempts; attempts++) {
+            let method = 'extrinsic';
+            try {
+                const tx = build(api);
+                method = `${tx.method.section}.${tx.method.method}`;
+                const [nonce, birthBlock, fee] = await Promise.all([
+                    nonceFor(api, pair.address),
+                    api.rpc.chain.getHeader().then(header => header.number.toNumber()),
+                    estimateFee(tx, pair),
+                ]);
+                const submittedAt = new Date().toISOString();
+                log.info(`Submitting ${method} (nonce ${nonce}, ${opts.eraPeriod ? `era ${opts.eraPeriod} blocks from ${birthBlock}` : 'immortal'}, fee ${fee ?? 'unknown'} rao, attempt ${attempts}/${opts.maxAttempts})`);
+                nextNonce.set(pair.address, nonce + 1);
+
+                const { inclusion, error, retry } = await opts.track(`${method} extrinsic`, attempt(api, tx, pair, nonce));
+                if (error) {
+                    lastErr = error;
+                    // The nonce may not have been consumed; ask the chain again
+                    nextNonce.delete(pair.address);
+                    if (!retry || opts.isShuttingDown()) break;
+                    log.warn(`${method} attempt ${attempts}/${opts.maxAttempts} failed, resubmitting: ${error.message}`);
+                    continue;
+                }
+                const header = await api.rpc.chain.getHeader(inclusion.blockHash);
+                const receipt: TxReceipt = {
+                    method,
+                    signer: pair.address,
+                    txHash: inclusion.txHash,
+                    blockHash: inclusion.blockHash,
+                    blockNumber: header.number.toNumber(),
+                    finalized: inclusion.finalized,
+                    nonce,
+                    era: opts.eraPeriod ? { period: opts.eraPeriod, birthBlock } : null,
+                    fee,
+                    attempts,
+                    submittedAt,
+                    includedAt: new Date().toISOString(),
+                };
+                log.notify(`${method} ${receipt.finalized ? 'finalized' : 'included'} in block ${receipt.blockNumber} (tx ${receipt.txHash}, nonce ${nonce}, fee ${fee ?? 'unknown'} rao)`);
+                await appendReceipt(receipt);
+                return [receipt, null];
+            } catch (err) {
+                // Building or RPC failures around the submission; the extrinsic may have landed, so never resubmit
+                nextNonce.delete(pair.address);
+                return [null, toError(err)];
+            }
+        }
+        return [null, lastErr];
+    };
+
+    return { submit };
+};
+
+export type TxManager = ReturnType<typeof createTxManager>;
@@ -0,0 +1,42 @@
+/**
+ * Shared types for the sn77 validator
+ */
+
+// Type alias for the standard return pattern [value, error]
+export type Result<T> = [T, Error | null];
+
+export interface WeightsResponse {
+  success: boolean;
+  weights: Record<string, number>;
+  cached: boolean;
+  error?: string;
+  // sr25519 signature over `<block>|<timestamp>|<canonical weights>` (see payloadVerification.ts)
+  block?: number;
+  timestamp?: number;
+  signature?: string;
+}
+
+export interface RegistryMapResponse {
+  success: boolean;
+  miners: Array<{ hotkeyAddress: string, ethereumAddress: string | null }>;
+  totalMiners: number;
+  linkedMiners: number;
+  error?: string;
+}
+
+export interface PingResponse {
+  success: boolean;
+  message: string;
+  serverVersion: string;
+  clientVersion: string;
+  versionCompatible: boolean;
+  error?: string;
+}
+
+export interface VersionWarning {
+  firstWarningTime: number;
+  lastWarningTime: number;
+  serverVersion: string;
+  clientVersion: string;
+  warningCount: number;
+}
@@ -0,0 +1,101 @@
+/**
+ * Resolves miner UIDs from chain storage for the sn77 validator
+ *
+ * The `/allMiners` registry only lists the miners registered in the EVM registry,
+ * in its own order, so UIDs are taken from `subtensorModule.keys` and the registry
+ * is only cross-checked against them. A registry entry is reported when its hotkey
+ * owns no UID on chain, or when its UID changed since the previous resolution
+ * (it was deregistered and registered again).
+ *
+ * Reading every UID is one storage query per UID, so the chain map is cached for
+ * the current epoch (subtensor's index: (block + netuid + 1) / (tempo + 1)). It is
+ * re-read early when the registry lists a hotkey that was neither in the cached
+ * map nor already missing from it, e.g. a miner that registered during the epoch.
+ */
+
+import type { ApiPromise } from '@polkadot/api';
+import { fetchSubnetUidHotkeys } from '../utils/bittensorUtils';
+import type { RegistryMapResponse, Result } from './types';
+
+export type UidMismatchPolicy = 'warn' | 'block';
+
+export interface UidMismatch {
+  hotkey: string;
+  // unregistered: no UID on chain, moved: the UID differs from the previous resolution
+  kind: 'unregistered' | 'moved';
+  previousUid: number | null;
+  chainUid: number | null;
+}
+
+export interface UidResolution {
+  hotkeyToUid: Record<string, number>;
+  uidToHotkey: string[];
+  mismatches: UidMismatch[];
+  // block at which the chain map was read
+  fetchedAtBlock: number;
+  resolvedAt: number;
+}
+
+const toNumber = (codec: any): number => codec?.toNumber ? codec.toNumber() : Number(codec?.toString() ?? 0);
+
+export const createUidResolver = (netuid: number) => {
+    let cached: { epoch: number; block: number; uidToHotkey: string[]; hotkeyToUid: Record<string, number>; missing: Set<string> } | null = null;
+    // registry hotkeys and their UIDs at the previous resolution
+    let previous: Record<string, number> | null = null;
+
+    const fetchChainMap = async (api: ApiPromise, registry: RegistryMapResponse, epoch: number, block: number): Promise<Error | null> => {
+        const [uidToHotkey, fetchErr] = await fetchSubnetUidHotkeys(api, netuid);
+        if (fetchErr) return new Error(fetchErr);
+        const hotkeyToUid: Record<string, number> = {};
+        uidToHotkey.forEach((hotkey, uid) => {
+            if (hotkey) hotkeyToUid[hotkey] = uid;
+        });
+        const missing = new Set(registry.miners.map(m => m.hotkeyAddress).filter(hotkey => hotkeyToUid[hotkey] === undefined));
+        cached = { epoch, block, uidToHotkey, hotkeyToUid, missing };
+        return null;
+    };
+
+    return {
+        /**
+         * Build the hotkey → UID map from chain storage (cached per epoch) and report
+         * the registry entries that are not on chain or whose UID changed.
+         */
+        resolve: async (api: ApiPromise, registry: RegistryMapResponse): Promise<Result<UidResolution | null>> => {
+            try {
+                const module = api.query.subtensorModule as any;
+                const [header, tempoCodec] = await Promise.all([api.rpc.chain.getHeader(), module.tempo(netuid)]);
+                const block = toNumber(header.number);
+                const tempo = toNumber(tempoCodec);
+                const epoch = tempo > 0 ? Math.floor((block + netuid + 1) / (tempo + 1)) : block;
+
+                const unknown = (c: NonNullable<typeof cached>) =>
+                    registry.miners.some(({ hotkeyAddress: h }) => c.hotkeyToUid[h] === undefined && !c.missing.has(h));
+                if (!cached || cached.epoch !== epoch || (cached.block !== block && unknown(cached))) {
+                    const fetchErr = await fetchChainMap(api, registry, epoch, block);
+                    if (fetchErr) return [null, fetchErr];
+                }
+                const { uidToHotkey, hotkeyToUid, block: fetchedAtBlock } = cached!;
+
+                const mismatches: UidMismatch[] = [];
+                const current: Record<string, number> = {};
+                for (const { hotkeyAddress: hotkey } of registry.miners) {
+                    const chainUid = hotkeyToUid[hotkey];
+                    const previousUid = previous?.[hotkey] ?? null;
+                    if (chainUid === undefined) {
+                        mismatches.push({ hotkey, kind: 'unregistered', previousUid, chainUid: null });
+                        continue;
+                    }
+                    current[hotkey] = chainUid;
+                    if (previousUid !== null && previousUid !== chainUid) mismatches.push({ hotkey, kind: 'moved', previousUid, chainUid });
+                }
+                previous = current;
+
+                return [{ hotkeyToUid, uidToHotkey, mismatches, fetchedAtBlock, resolvedAt: Date.now() }, null];
+            } catch (err) {
+                return [null, err instanceof Error ? err : new Error(String(err))];
+            }
+        },
+    };
+};
+
+export type UidResolver = ReturnType<typeof createUidResolver>;
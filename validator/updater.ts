@@ -0,0 +1,267 @@
+/**
+ * Auto-update subsystem for the sn77 validator
+ *
+ * Updates to the release tag matching the server's version (`v<serverVersion>`)
+ * when the version bump is allowed by the policy, verifies the tag, runs a
+ * pre-flight type-check and smoke test on the new checkout and rolls back to the
+ * previous commit when any step fails. The validator then exits with
+ * EXIT_CODE_RESTART so the supervisor (or systemd/pm2) starts the new version;
+ * the supervisor also rolls back when the new version crashes before it
+ * confirmed a successful iteration. Commands run asynchronously, so the metrics
+ * server, the control API and signal handling keep working during an update;
+ * aborting `signal` kills the running command and rolls the checkout back.
+ */
+
+import { exec } from 'child_process';
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { getLogger } from '../utils/logger';
+import type { Result } from './types';
+
+// Exit code asking the supervisor to restart the validator immediately
+export const EXIT_CODE_RESTART = 75;
+
+export const INSTALL_COMMAND = 'bun install';
+
+// Run on the new checkout before it is accepted: type-check, then start the validator in smoke-test mode
+export const PREFLIGHT_COMMANDS = [
+    'bunx tsc --noEmit -p tsconfig.validator.json',
+    'bun run validator/index.ts --smoke-test',
+];
+
+// Largest version bump that is applied automatically
+export type UpdatePolicy = 'patch' | 'minor' | 'major';
+
+export type BumpLevel = 'major' | 'minor' | 'patch';
+
+export interface UpdateState {
+  // applied: new version checked out, awaiting its first successful iteration
+  status: 'applied' | 'confirmed' | 'rolled_back';
+  fromVersion: string;
+  toVersion: string;
+  tag: string;
+  // commit (or branch) to return to on rollback
+  previousRef: string;
+  updatedAt: number;
+  // versions that failed verification or pre-flight and must not be retried
+  failedVersions: string[];
+}
+
+export interface UpdateOptions {
+  repoDir: string;
+  stateFile: string;
+  currentVersion: string;
+  targetVersion: string;
+  policy: UpdatePolicy;
+  tagPrefix: string;
+  requireSignedTag: boolean;
+  commandTimeoutMs: number;
+  // aborted when the validator shuts down mid-update
+  signal?: AbortSignal;
+}
+
+const log = getLogger('updater');
+
+const SEMVER = /^v?(\d+)\.(\d+)\.(\d+)$/;
+
+export const parseVersion = (version: string): [number, number, number] | null => {
+    const match = SEMVER.exec(version.trim());
+    return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+};
+
+/**
+ * The level of the bump from `from` to `to`, or null when `to` is not newer.
+ */
+export const getBumpLevel = (from: string, to: string): BumpLevel | null => {
+    const a = parseVersion(from);
+    const b = parseVersion(to);
+    if (!a || !b) return null;
+    if (b[0] !== a[0]) return b[0] > a[0] ? 'major' : null;
+    if (b[1] !== a[1]) return b[1] > a[1] ? 'minor' : null;
+    if (b[2] !== a[2]) return b[2] > a[2] ? 'patch' : null;
+    return null;
+};
+
+const POLICY_RANK: Record<UpdatePolicy, number> = { patch: 0, minor: 1, major: 2 };
+
+/**
+ * Returns the reason the update must not be applied automatically, or null when it may.
+ */
+export const getUpdateRejectReason = (from: string, to: string, policy: UpdatePolicy): string | null => {
+    if (!parseVersion(to)) return `server version "${to}" is not a semver version`;
+    if (!parseVersion(from)) return `client version "${from}" is not a semver version`;
+    const bump = getBumpLevel(from, to);
+    if (!bump) return `${to} is not newer than ${from}`;
+    if (POLICY_RANK[bump] > POLICY_RANK[policy]) return `${bump} update ${from} -> ${to} exceeds AUTO_UPDATE_POLICY=${policy}`;
+    return null;
+};
+
+export async function loadUpdateState(filePath: string): Promise<UpdateState | null> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf-8')) as UpdateState;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveUpdateState(filePath: string, state: UpdateState): Promise<Error | null> {
+    const tmpPath = `${filePath}.tmp`;
+    try {
+        await fs.writeFile(tmpPath, JSON.stringify(state, null, 2));
+        await fs.rename(tmpPath, filePath);
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err : new Error(String(err));
+    }
+}
+
+const execAsync = promisify(exec);
+// Output of bun install and tsc can exceed exec's 1 MB default
+const MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+
+const run = async (command: string, cwd: string, timeoutMs: number, signal?: AbortSignal): Promise<string> => {
+    const { stdout } = await execAsync(command, { cwd, encoding: 'utf8', timeout: timeoutMs, maxBuffer: MAX_OUTPUT_BYTES, signal });
+    return stdout.trim();
+};
+
+const toError = (err: unknown): Error => {
+    if (!(err instanceof Error)) return new Error(String(err));
+    // exec errors carry the command output; surface stderr for the logs
+    const stderr = (err as { stderr?: Buffer | string }).stderr?.toString().trim();
+    return stderr ? new Error(`${err.message.split('\n')[0]}: ${stderr.slice(-2000)}`) : err;
+};
+
+// Current branch name, or the commit hash when HEAD is detached
+const currentRef = async (repoDir: string, timeoutMs: number): Promise<string> => {
+    const branch = await run('git branch --show-current', repoDir, timeoutMs);
+    return branch || run('git rev-parse HEAD', repoDir, timeoutMs);
+};
+
+/**
+ * Fetch tags and make sure `tag` exists, optionally carries a valid signature,
+ * and declares `version` in its package.json.
+ */
+const verifyTag = async (opts: UpdateOptions, tag: string): Promise<Error | null> => {
+    try {
+        await run('git fetch --tags --force origin', opts.repoDir, opts.commandTimeoutMs, opts.signal);
+        await run(`git rev-parse --verify --quiet refs/tags/${tag}^{commit}`, opts.repoDir, opts.commandTimeoutMs, opts.signal);
+    } catch (err) {
+        return new Error(`Release tag ${tag} not found: ${toError(err).message}`);
+    }
+    if (opts.requireSignedTag) {
+        try {
+            await run(`git verify-tag ${tag}`, opts.repoDir, opts.commandTimeoutMs, opts.signal);
+        } catch (err) {
+            return new Error(`Signature verification of ${tag} failed: ${toError(err).message}`);
+        }
+    }
+    try {
+        const pkg = JSON.parse(await run(`git show ${tag}:package.json`, opts.repoDir, opts.commandTimeoutMs, opts.signal));
+        if (pkg.version !== opts.targetVersion) return new Error(`Tag ${tag} declares version ${pkg.version}, expected ${opts.targetVersion}`);
+    } catch (err) {
+        return new Error(`Failed to read package.json of ${tag}: ${toError(err).message}`);
+    }
+    return null;
+};
+
+/**
+ * Check out `previousRef` again and reinstall its dependencies.
+ */
+export const rollback = async (repoDir: string, previousRef: string, timeoutMs: number): Promise<Error | null> => {
+    try {
+        log.warn(`Rolling back to ${previousRef}...`);
+        await run(`git checkout --force ${previousRef}`, repoDir, timeoutMs);
+        await run(INSTALL_COMMAND, repoDir, timeoutMs);
+        log.notify(`Rolled back to ${previousRef}`);
+        return null;
+    } catch (err) {
+        return toError(err);
+    }
+};
+
+/**
+ * Apply the update described by `opts`. Returns the new state on success; on
+ * failure the checkout is rolled back and the version is recorded as failed.
+ */
+export async function applyUpdate(opts: UpdateOptions): Promise<Result<UpdateState | null>> {
+    const previous = await loadUpdateState(opts.stateFile);
+    const failedVersions = previous?.failedVersions ?? [];
+    if (failedVersions.includes(opts.targetVersion)) {
+        return [null, new Error(`Version ${opts.targetVersion} failed to update before, not retrying`)];
+    }
+
+    const rejectReason = getUpdateRejectReason(opts.currentVersion, opts.targetVersion, opts.policy);
+    if (rejectReason) return [null, new Error(`Update not allowed: ${rejectReason}`)];
+
+    let previousRef: string;
+    try {
+        await run('git rev-parse --is-inside-work-tree', opts.repoDir, opts.commandTimeoutMs);
+        if (await run('git status --porcelain --untracked-files=no', opts.repoDir, opts.commandTimeoutMs)) {
+            return [null, new Error('Working tree has local modifications, refusing to auto-update')];
+        }
+        previousRef = await currentRef(opts.repoDir, opts.commandTimeoutMs);
+    } catch (err) {
+        return [null, new Error(`Not a usable git checkout: ${toError(err).message}`)];
+    }
+
+    const tag = `${opts.tagPrefix}${opts.targetVersion}`;
+    const markFailed = async (err: Error): Promise<Result<UpdateState | null>> => {
+        const state: UpdateState = {
+            status: 'rolled_back',
+            fromVersion: opts.currentVersion,
+            toVersion: opts.targetVersion,
+            tag,
+            previousRef,
+            updatedAt: Date.now(),
+            failedVersions: [...failedVersions, opts.targetVersion],
+        };
+        const saveErr = await saveUpdateState(opts.stateFile, state);
+        if (saveErr) log.error('Failed to save update state:', saveErr);
+        return [null, err];
+    };
+
+    log.notify(`Updating ${opts.currentVersion} -> ${opts.targetVersion} (tag ${tag})`);
+    const verifyErr = await verifyTag(opts, tag);
+    // An interrupted update did not fail; it is retried after the restart
+    if (opts.signal?.aborted) return [null, new Error(`Update to ${tag} interrupted by shutdown`)];
+    if (verifyErr) return markFailed(verifyErr);
+
+    try {
+        await run(`git checkout --force --detach refs/tags/${tag}`, opts.repoDir, opts.commandTimeoutMs, opts.signal);
+        log.info('Installing updated dependencies...');
+        await run(INSTALL_COMMAND, opts.repoDir, opts.commandTimeoutMs, opts.signal);
+        for (const command of PREFLIGHT_COMMANDS) {
+            log.info(`Pre-flight: ${command}`);
+            await run(command, opts.repoDir, opts.commandTimeoutMs, opts.signal);
+        }
+    } catch (err) {
+        const error = opts.signal?.aborted ? new Error(`Update to ${tag} interrupted by shutdown`) : toError(err);
+        log.error(`Update to ${tag} failed:`, error);
+        const rollbackErr = await rollback(opts.repoDir, previousRef, opts.commandTimeoutMs);
+        if (rollbackErr) log.error(`Rollback to ${previousRef} failed, manual intervention required:`, rollbackErr);
+        return opts.signal?.aborted ? [null, error] : markFailed(error);
+    }
+
+    const state: UpdateState = {
+        status: 'applied',
+        fromVersion: opts.currentVersion,
+        toVersion: opts.targetVersion,
+        tag,
+        previousRef,
+        updatedAt: Date.now(),
+        failedVersions,
+    };
+    const saveErr = await saveUpdateState(opts.stateFile, state);
+    if (saveErr) log.error('Failed to save update state:', saveErr);
+    log.notify(`Update to ${tag} passed pre-flight checks`);
+    return [state, null];
+}
+
+// Called once the new version completed an iteration; disables rollback-on-crash
+export async function confirmUpdate(filePath: string): Promise<void> {
+    const state = await loadUpdateState(filePath);
+    if (state?.status !== 'applied') return;
+    const saveErr = await saveUpdateState(filePath, { ...state, status: 'confirmed', updatedAt: Date.now() });
+    if (saveErr) log.error('Failed to confirm update:', saveErr);
+    else log.notify(`Update to ${state.tag} confirmed`);
+}
@@ -0,0 +1,54 @@
+/**
+ * Weights version key for the sn77 validator
+ *
+ * Subtensor rejects `setWeights`, `commitWeights` and `revealWeights` with
+ * `IncorrectWeightVersionKey` when the submitted key is below the subnet's
+ * `weightsVersionKey` hyperparameter (0 disables the check). The validator
+ * submits the key of its own version, encoded like the spec version of the
+ * Bittensor subnet template: `1000 * major + 10 * minor + patch` (1.2.0 -> 1020).
+ * Versions with a minor above 99 or a patch above 9 have no key, since theirs
+ * would collide with another version's; the validator refuses to start on one.
+ * A required key above the client's means the subnet expects a newer validator.
+ */
+
+import type { ApiPromise } from '@polkadot/api';
+import { parseVersion } from './updater';
+import type { Result } from './types';
+
+export interface VersionKeyCheck {
+  // 0 when the subnet does not check version keys
+  required: number;
+  clientKey: number;
+  compatible: boolean;
+  // version the required key decodes to
+  requiredVersion: string;
+}
+
+export const versionToKey = (version: string): number | null => {
+    const parsed = parseVersion(version);
+    if (!parsed) return null;
+    const [major, minor, patch] = parsed;
+    return minor <= 99 && patch <= 9 ? 1000 * major + 10 * minor + patch : null;
+};
+
+// Inverse of versionToKey
+export const keyToVersion = (key: number): string =>
+    `${Math.floor(key / 1000)}.${Math.floor((key % 1000) / 10)}.${key % 10}`;
+
+export async function fetchWeightsVersionKey(api: ApiPromise, netuid: number): Promise<Result<number>> {
+    try {
+        const module = api.query.subtensorModule as any;
+        // Runtimes without the hyperparameter do not check version keys
+        if (!module.weightsVersionKey) return [0, null];
+        return [Number((await module.weightsVersionKey(netuid)).toString()), null];
+    } catch (err) {
+        return [0, err instanceof Error ? err : new Error(String(err))];
+    }
+}
+
+export const checkVersionKey = (required: number, clientKey: number): VersionKeyCheck => ({
+    required,
+    clientKey,
+    compatible: required === 0 || clientKey >= required,
+    requiredVersion: keyToVersion(required),
+});
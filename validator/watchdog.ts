@@ -0,0 +1,173 @@
+/**
+ * Registration watchdog for the sn77 validator
+ *
+ * Every `intervalBlocks` blocks, reads the validator's standing on the subnet:
+ * - the UID its hotkey owns (`uids`, cross-checked against `keys`)
+ * - its validator permit (`validatorPermit`)
+ * - its stake weight against the chain's `stakeThreshold`, computed like
+ *   subtensor's `get_stake_weights_for_hotkey_on_subnet`: the alpha stake on the
+ *   subnet plus the root stake times `taoWeight` (u64, scaled by u64::MAX), both
+ *   after the shares given to child hotkeys and inherited from parent hotkeys
+ *   (`childKeys` / `parentKeys` on the subnet). Older runtimes without
+ *   `totalHotkeyAlpha` compare `totalHotkeyStake` instead
+ * Weight submission is paused while the hotkey is deregistered, has no permit or
+ * is below the stake threshold, and resumes once every condition clears. Storage
+ * items the runtime does not have are skipped. A failed read keeps the previous
+ * state.
+ */
+
+import type { ApiPromise } from '@polkadot/api';
+import { getLogger } from '../utils/logger';
+import type { Result } from './types';
+
+export type PauseReason = 'deregistered' | 'no_validator_permit' | 'insufficient_stake';
+
+export interface ValidatorStanding {
+  block: number;
+  uid: number | null;
+  // null when the runtime has no such storage item
+  permit: boolean | null;
+  // Stake weight compared with the threshold, in TAO units (rao / 1e9)
+  stake: number | null;
+  // Inherited alpha on the subnet and inherited root stake, TAO units; null on older runtimes
+  alphaStake: number | null;
+  rootStake: number | null;
+  // Share of the root stake that counts (TaoWeight / u64::MAX)
+  taoWeight: number | null;
+  stakeThreshold: number | null;
+}
+
+export interface WatchdogStatus {
+  paused: boolean;
+  reasons: Array<{ reason: PauseReason; message: string }>;
+  standing: ValidatorStanding | null;
+  pausedSince: string | null;
+  lastError: string | null;
+}
+
+export interface WatchdogCheck {
+  status: WatchdogStatus;
+  // set when this check paused or resumed weight submission
+  transition: 'paused' | 'resumed' | null;
+}
+
+const log = getLogger('watchdog');
+
+const RAO_PER_TAO = 1e9;
+const U64_MAX = 2 ** 64 - 1;
+const ROOT_NETUID = 0;
+
+const toNumber = (codec: any): number => codec?.toNumber ? codec.toNumber() : Number(codec?.toString() ?? 0);
+const toTao = (codec: any): number => Number(codec?.toString() ?? 0) / RAO_PER_TAO;
+// Vec<(u64, AccountId)>; u64 values above 2^52 serialize as hex, which Number() parses
+const toProportions = (codec: any): Array<{ share: number; hotkey: string }> =>
+    ((codec?.toJSON() ?? []) as Array<[number | string, string]>).map(([proportion, hotkey]) => ({ share: Number(proportion) / U64_MAX, hotkey }));
+
+/**
+ * Stake `hotkey` holds on `stakeNetuid` after childkey delegation on `netuid`,
+ * as subtensor's `get_inherited_for_hotkey_on_subnet`: its own stake, minus the
+ * shares given to its children, plus the shares of its parents' stake.
+ */
+async function inheritedStake(module: any, hotkey: string, netuid: number, stakeNetuid: number): Promise<number> {
+    const own = toTao(await module.totalHotkeyAlpha(hotkey, stakeNetuid));
+    const children = module.childKeys ? toProportions(await module.childKeys(hotkey, netuid)) : [];
+    const parents = module.parentKeys ? toProportions(await module.parentKeys(hotkey, netuid)) : [];
+    const toChildren = children.reduce((sum, { share }) => sum + own * share, 0);
+    let fromParents = 0;
+    for (const { share, hotkey: parent } of parents) {
+        fromParents += toTao(await module.totalHotkeyAlpha(parent, stakeNetuid)) * share;
+    }
+    return Math.max(0, own - toChildren + fromParents);
+}
+
+export async function fetchValidatorStanding(api: ApiPromise, netuid: number, hotkey: string): Promise<Result<ValidatorStanding | null>> {
+    try {
+        const module = api.query.subtensorModule as any;
+        const header = await api.rpc.chain.getHeader();
+        const block = header.number.toNumber();
+
+        // Uids is an Option<u16>: null when the hotkey is not registered
+        const uidJson = (await module.uids(netuid, hotkey))?.toJSON();
+        let uid: number | null = uidJson === null || uidJson === undefined ? null : Number(uidJson);
+        if (uid !== null && (await module.keys(netuid, uid)).toString() !== hotkey) uid = null;
+
+        let permit: boolean | null = null;
+        if (uid !== null && module.validatorPermit) {
+            const permits = (await module.validatorPermit(netuid)).toJSON() as boolean[] | null;
+            permit = permits?.[uid] === true;
+        }
+
+        const stakeThreshold = module.stakeThreshold ? toTao(await module.stakeThreshold()) : null;
+        let stake: number | null = null;
+        let alphaStake: number | null = null;
+        let rootStake: number | null = null;
+        let taoWeight: number | null = null;
+        if (module.totalHotkeyAlpha) {
+            alphaStake = await inheritedStake(module, hotkey, netuid, netuid);
+            rootStake = await inheritedStake(module, hotkey, netuid, ROOT_NETUID);
+            taoWeight = module.taoWeight ? Number((await module.taoWeight()).toString()) / U64_MAX : 0;
+            stake = alphaStake + rootStake * taoWeight;
+        } else if (module.totalHotkeyStake) {
+            stake = toTao(await module.totalHotkeyStake(hotkey));
+        }
+
+        return [{ block, uid, permit, stake, alphaStake, rootStake, taoWeight, stakeThreshold }, null];
+    } catch (err) {
+        return [null, err instanceof Error ? err : new Error(String(err))];
+    }
+}
+
+export const pauseReasons = (standing: ValidatorStanding, hotkey: string, netuid: number): WatchdogStatus['reasons'] => {
+    if (standing.uid === null) {
+        return [{ reason: 'deregistered', message: `hotkey ${hotkey} has no UID on netuid ${netuid}` }];
+    }
+    const reasons: WatchdogStatus['reasons'] = [];
+    if (standing.permit === false) {
+        reasons.push({ reason: 'no_validator_permit', message: `UID ${standing.uid} has no validator permit` });
+    }
+    if (standing.stake !== null && standing.stakeThreshold !== null && standing.stake < standing.stakeThreshold) {
+        reasons.push({ reason: 'insufficient_stake', message: `stake weight ${standing.stake.toFixed(4)} is below the weights threshold ${standing.stakeThreshold.toFixed(4)}` });
+    }
+    return reasons;
+};
+
+export const createWatchdog = (opts: { netuid: number; intervalBlocks: number }) => {
+    let status: WatchdogStatus = { paused: false, reasons: [], standing: null, pausedSince: null, lastError: null };
+
+    return {
+        status: (): WatchdogStatus => status,
+
+        /**
+         * Re-read the standing when `intervalBlocks` have passed since the last
+         * successful check (always on the first call).
+         */
+        check: async (api: ApiPromise, hotkey: string): Promise<WatchdogCheck> => {
+            if (status.standing) {
+                // An unreadable header falls through to the full read, which records the error
+                const current = await api.rpc.chain.getHeader().then(header => toNumber(header.number), () => Infinity);
+                if (current - status.standing.block < opts.intervalBlocks) return { status, transition: null };
+            }
+
+            const [standing, err] = await fetchValidatorStanding(api, opts.netuid, hotkey);
+            if (err || !standing) {
+                log.warn('Failed to read validator standing, keeping the previous state:', err);
+                status = { ...status, lastError: err?.message ?? 'no standing' };
+                return { status, transition: null };
+            }
+
+            const reasons = pauseReasons(standing, hotkey, opts.netuid);
+            const paused = reasons.length > 0;
+            const transition = paused === status.paused ? null : paused ? 'paused' : 'resumed';
+            status = {
+                paused,
+                reasons,
+                standing,
+                pausedSince: paused ? status.pausedSince ?? new Date().toISOString() : null,
+                lastError: null,
+            };
+            return { status, transition };
+        },
+    };
+};
+
+export type Watchdog = ReturnType<typeof createWatchdog>;
@@ -0,0 +1,199 @@
+/**
+ * Independent weight audit for the sn77 validator
+ *
+ * Recomputes miner weights locally from the raw server inputs (`/pools` vote
+ * totals, `/positions` emissions and the `/allMiners` registry) and compares
+ * the result with the map returned by `/weights`.
+ *
+ * Every position served by `/positions` carries `emission`, the share of the
+ * subnet emission the server allocates to it (the figure scripts/get-positions.ts
+ * prints). `/weights` is that allocation summed per miner, so locally:
+ *   miner weight = sum of position.emission over the miner's positions in voted pools
+ * normalized to 1. Only registered hotkeys and pools with a positive vote total
+ * count; weight the server gives to anything else shows up as divergence.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getLogger } from '../utils/logger';
+import type { RegistryMapResponse, Result } from './types';
+
+export type AuditMode = 'off' | 'report' | 'enforce';
+
+export interface AuditPool {
+  address: string;
+  totalWeight: number;
+}
+
+export interface PoolsResponse {
+  success: boolean;
+  pools: AuditPool[];
+  error?: string;
+}
+
+export interface AuditPosition {
+  id: string;
+  pool: { id: string; tick: string };
+  tickLower: { tickIdx: string };
+  tickUpper: { tickIdx: string };
+  liquidity: string;
+  emission: number;
+}
+
+export interface PositionsResponse {
+  success: boolean;
+  positions: Record<string, AuditPosition[]>;
+  error?: string;
+}
+
+export interface WeightDivergence {
+  hotkey: string;
+  server: number;
+  local: number;
+  diff: number;
+}
+
+export interface AuditReport {
+  timestamp: string;
+  mode: AuditMode;
+  tolerance: number;
+  l1Distance: number;
+  maxAbsDiff: number;
+  diverged: boolean;
+  serverHotkeys: number;
+  localHotkeys: number;
+  topDivergences: WeightDivergence[];
+}
+
+const log = getLogger('audit');
+
+const TOP_DIVERGENCES = 10;
+
+const fetchJson = async <T extends { success: boolean; error?: string }>(url: string): Promise<Result<T | null>> => {
+    try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+        const response = await fetch(url, { signal: controller.signal });
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+            return [null, new Error(`Server responded with status ${response.status}: ${response.statusText}`)];
+        }
+
+        const data = await response.json() as T;
+        if (!data.success) return [null, new Error(data.error || `Request to ${url} failed`)];
+        return [data, null];
+    } catch (err) {
+        return [null, err instanceof Error ? err : new Error(String(err))];
+    }
+};
+
+export const fetchPools = (baseUrl: string) => fetchJson<PoolsResponse>(`${baseUrl}/pools`);
+
+export const fetchPositions = (baseUrl: string) => fetchJson<PositionsResponse>(`${baseUrl}/positions`);
+
+const normalizeMap = (weights: Record<string, number>): Record<string, number> => {
+    const total = Object.values(weights).reduce((sum, w) => sum + (isFinite(w) && w > 0 ? w : 0), 0);
+    const out: Record<string, number> = {};
+    if (total <= 0) return out;
+    for (const [key, w] of Object.entries(weights)) {
+        if (isFinite(w) && w > 0) out[key] = w / total;
+    }
+    return out;
+};
+
+/**
+ * Recompute hotkey weights from the position emissions, pool votes and the miner
+ * registry. Returned weights are normalized to sum to 1 (empty when nothing qualifies).
+ */
+export const computeLocalWeights = (
+    pools: AuditPool[],
+    positions: Record<string, AuditPosition[]>,
+    registry: RegistryMapResponse,
+): Record<string, number> => {
+    const voted = new Set(pools.filter(p => p.totalWeight > 0).map(p => p.address.toLowerCase()));
+    const registered = new Set(registry.miners.map(m => m.hotkeyAddress));
+
+    const weights: Record<string, number> = {};
+    for (const [hotkey, hotkeyPositions] of Object.entries(positions)) {
+        if (!registered.has(hotkey)) continue;
+        for (const position of hotkeyPositions) {
+            if (!voted.has(position.pool.id.toLowerCase())) continue;
+            const emission = Number(position.emission);
+            if (!isFinite(emission) || emission <= 0) continue;
+            weights[hotkey] = (weights[hotkey] ?? 0) + emission;
+        }
+    }
+    return normalizeMap(weights);
+};
+
+/**
+ * Compare the server weight map with a locally computed one. Both maps are
+ * normalized first so that only the relative distribution is compared.
+ */
+export const compareWeightMaps = (
+    server: Record<string, number>,
+    local: Record<string, number>,
+    tolerance: number,
+    mode: AuditMode,
+): AuditReport => {
+    const a = normalizeMap(server);
+    const b = normalizeMap(local);
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+    const divergences: WeightDivergence[] = [];
+    let l1Distance = 0;
+    let maxAbsDiff = 0;
+    for (const hotkey of keys) {
+        const s = a[hotkey] ?? 0;
+        const l = b[hotkey] ?? 0;
+        const diff = s - l;
+        l1Distance += Math.abs(diff);
+        maxAbsDiff = Math.max(maxAbsDiff, Math.abs(diff));
+        divergences.push({ hotkey, server: s, local: l, diff });
+    }
+    divergences.sort((x, y) => Math.abs(y.diff) - Math.abs(x.diff));
+
+    return {
+        timestamp: new Date().toISOString(),
+        mode,
+        tolerance,
+        l1Distance,
+        maxAbsDiff,
+        diverged: l1Distance > tolerance,
+        serverHotkeys: Object.keys(a).length,
+        localHotkeys: Object.keys(b).length,
+        topDivergences: divergences.slice(0, TOP_DIVERGENCES),
+    };
+};
+
+/**
+ * Fetch the raw inputs, recompute weights and compare them with the server map.
+ * The report is also written to `<logDir>/audit/<timestamp>.json`.
+ */
+export async function auditServerWeights(
+    serverWeights: Record<string, number>,
+    registry: RegistryMapResponse,
+    opts: { baseUrl: string; tolerance: number; mode: AuditMode; logDir: string },
+): Promise<Result<AuditReport | null>> {
+    const [[poolsData, poolsErr], [positionsData, positionsErr]] = await Promise.all([
+        fetchPools(opts.baseUrl),
+        fetchPositions(opts.baseUrl),
+    ]);
+    if (poolsErr || !poolsData) return [null, poolsErr ?? new Error('No pools data received')];
+    if (positionsErr || !positionsData) return [null, positionsErr ?? new Error('No positions data received')];
+
+    const localWeights = computeLocalWeights(poolsData.pools, positionsData.positions, registry);
+    const report = compareWeightMaps(serverWeights, localWeights, opts.tolerance, opts.mode);
+
+    try {
+        const auditDir = path.join(opts.logDir, 'audit');
+        await fs.mkdir(auditDir, { recursive: true });
+        const ts = report.timestamp.replace(/[:.]/g, '-');
+        await fs.writeFile(path.join(auditDir, `${ts}.json`), JSON.stringify({ ...report, serverWeights, localWeights }, null, 2));
+    } catch (fileErr) {
+        log.error('Failed to write audit report:', fileErr);
+    }
+
+    return [report, null];
+}
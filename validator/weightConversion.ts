@@ -0,0 +1,211 @@
+/**
+ * Weight conversion for the sn77 validator
+ *
+ * Turns normalized float weights into the u16 vector submitted with `setWeights`,
+ * respecting the subnet's weight hyperparameters the way subtensor checks them:
+ * - `maxWeightsLimit`: no weight may exceed `maxWeightsLimit / 65535` of the vector's sum.
+ *   Larger weights are clipped and the excess is redistributed proportionally.
+ * - `minAllowedWeights`: the vector needs at least min(minAllowedWeights, subnetworkN) entries.
+ *   Short vectors are padded with unweighted registered UIDs at the smallest possible weight,
+ *   also up to the ceil(1 / maxShare) entries clipping needs to sum to 100%.
+ * The floats are then converted with the largest-remainder method: every positive weight gets
+ * at least 1 and the values sum to exactly 65535. The chain stores rows max-upscaled (largest
+ * value 65535); that representation is returned too, and the vector is validated before it
+ * is submitted.
+ */
+
+import type { ApiPromise } from '@polkadot/api';
+import { U16_MAX } from './weightMath';
+import type { Result } from './types';
+
+export interface WeightHyperparameters {
+  // largest allowed share of a single weight, in u16 (65535 = no limit)
+  maxWeightsLimit: number;
+  minAllowedWeights: number;
+  subnetworkN: number;
+}
+
+export interface ConvertedWeights {
+  uids: number[];
+  // submitted values, summing to 65535
+  values: number[];
+  // the row the chain will store: values max-upscaled to 65535
+  onChain: number[];
+  // UIDs whose weight was clipped to maxWeightsLimit
+  clipped: number[];
+  // UIDs added to reach minAllowedWeights or the count maxWeightsLimit needs
+  padded: number[];
+  maxShare: number;
+}
+
+const toNumber = (codec: any): number => codec?.toNumber ? codec.toNumber() : Number(codec?.toString() ?? 0);
+
+// Weight given to padding UIDs; converts to the minimum of 1
+const PADDING_WEIGHT = 1e-9;
+
+export async function fetchWeightHyperparameters(api: ApiPromise, netuid: number): Promise<Result<WeightHyperparameters | null>> {
+    try {
+        const module = api.query.subtensorModule as any;
+        const [maxWeightsLimit, minAllowedWeights, subnetworkN] = await Promise.all([
+            module.maxWeightsLimit(netuid),
+            module.minAllowedWeights(netuid),
+            module.subnetworkN(netuid),
+        ]);
+        return [{
+            maxWeightsLimit: toNumber(maxWeightsLimit),
+            minAllowedWeights: toNumber(minAllowedWeights),
+            subnetworkN: toNumber(subnetworkN),
+        }, null];
+    } catch (err) {
+        return [null, err instanceof Error ? err : new Error(String(err))];
+    }
+}
+
+// Weight count the chain requires; a single weight on the validator itself is always allowed
+export const minWeightCount = (params: WeightHyperparameters): number => Math.min(params.minAllowedWeights, params.subnetworkN);
+
+// Weight count to pad to: the chain's minimum, and enough weights for maxWeightsLimit to sum to 100%
+export const paddedWeightCount = (params: WeightHyperparameters): number => {
+    const maxShare = params.maxWeightsLimit / U16_MAX;
+    const forMaxShare = maxShare >= 1 ? 0 : maxShare > 0 ? Math.ceil(1 / maxShare) : Infinity;
+    return Math.min(params.subnetworkN, Math.max(minWeightCount(params), forMaxShare));
+};
+
+/**
+ * Clip weights (normalized to sum to 1) to `maxShare` and hand the excess to the
+ * unclipped weights in proportion to their size, repeating until none exceeds it.
+ * Returns the indices that were clipped.
+ */
+export const clipToMaxShare = (weights: number[], maxShare: number): Result<{ weights: number[]; clipped: number[] }> => {
+    if (maxShare >= 1) return [{ weights: [...weights], clipped: [] }, null];
+    if (weights.length * maxShare < 1) {
+        return [{ weights, clipped: [] }, new Error(`maxWeightsLimit allows at most ${(maxShare * 100).toFixed(2)}% per weight, ${weights.length} weights cannot sum to 100%`)];
+    }
+
+    const result = [...weights];
+    const clipped = new Set<number>();
+    for (;;) {
+        const free = result.map((_, i) => i).filter(i => !clipped.has(i));
+        const remaining = 1 - clipped.size * maxShare;
+        // Every weight at the limit already sums to 100%
+        if (!free.length && remaining <= 1e-12) return [{ weights: result.map(() => maxShare), clipped: [...clipped].sort((a, b) => a - b) }, null];
+        const freeTotal = free.reduce((sum, i) => sum + weights[i], 0);
+        if (freeTotal <= 0) return [{ weights, clipped: [] }, new Error('No weight left to absorb the clipped excess')];
+
+        const scale = remaining / freeTotal;
+        const over = free.filter(i => weights[i] * scale > maxShare);
+        if (!over.length) {
+            for (const i of free) result[i] = weights[i] * scale;
+            for (const i of clipped) result[i] = maxShare;
+            return [{ weights: result, clipped: [...clipped].sort((a, b) => a - b) }, null];
+        }
+        over.forEach(i => clipped.add(i));
+    }
+};
+
+/**
+ * Largest-remainder conversion of positive weights to u16 values summing to
+ * exactly 65535. Every weight first gets 1, so none is rounded away; the rest is
+ * split by floor, and the leftover units go to the largest remainders (ties to
+ * the lower index).
+ */
+export const toU16LargestRemainder = (weights: number[]): Result<number[]> => {
+    if (!weights.length) return [[], new Error('No weights to convert')];
+    if (weights.some(w => !isFinite(w) || w <= 0)) return [[], new Error('Weights must be positive and finite')];
+    if (weights.length > U16_MAX) return [[], new Error(`Cannot give ${weights.length} weights a non-zero u16 value`)];
+
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const units = U16_MAX - weights.length;
+    const exact = weights.map(w => (w / total) * units);
+    const values = exact.map(e => 1 + Math.floor(e));
+    let leftover = U16_MAX - values.reduce((sum, v) => sum + v, 0);
+    const byRemainder = exact.map((e, i) => ({ i, remainder: e - Math.floor(e) })).sort((a, b) => b.remainder - a.remainder || a.i - b.i);
+    for (const { i } of byRemainder) {
+        if (leftover <= 0) break;
+        values[i]++;
+        leftover--;
+    }
+    return [values, null];
+};
+
+// subtensor's vec_u16_max_upscale_to_u16: scale so the largest value becomes 65535
+export const toOnChainWeights = (values: number[]): number[] => {
+    const max = Math.max(0, ...values);
+    if (max === 0 || max === U16_MAX) return [...values];
+    return values.map(v => Math.round((v * U16_MAX) / max));
+};
+
+/**
+ * The checks subtensor applies to a `setWeights` call, run locally so an
+ * invalid vector is never submitted.
+ */
+export const validateWeightVector = (uids: number[], values: number[], params: WeightHyperparameters, validatorUid: number): Error | null => {
+    if (uids.length !== values.length) return new Error(`${uids.length} UIDs but ${values.length} values (WeightVecNotEqualSize)`);
+    if (new Set(uids).size !== uids.length) return new Error('Duplicate UIDs (DuplicateUids)');
+    const invalid = uids.find(uid => !Number.isInteger(uid) || uid < 0 || uid >= params.subnetworkN);
+    if (invalid !== undefined) return new Error(`UID ${invalid} is not registered on a subnet of ${params.subnetworkN} (UidVecContainInvalidOne)`);
+    if (values.some(v => !Number.isInteger(v) || v < 0 || v > U16_MAX)) return new Error('Values must be u16 integers');
+
+    const isSelfWeight = uids.length === 1 && uids[0] === validatorUid;
+    if (isSelfWeight) return null;
+    if (uids.length < minWeightCount(params)) {
+        return new Error(`${uids.length} weights, subnet requires at least ${minWeightCount(params)} (WeightVecLengthIsLow)`);
+    }
+    const total = values.reduce((sum, v) => sum + v, 0);
+    if (params.maxWeightsLimit < U16_MAX && total > 0) {
+        // max / total <= limit / 65535, in integers
+        const max = Math.max(...values);
+        if (max * U16_MAX > params.maxWeightsLimit * total) {
+            return new Error(`Largest weight is ${((max / total) * 100).toFixed(3)}% of the total, maxWeightsLimit allows ${((params.maxWeightsLimit / U16_MAX) * 100).toFixed(3)}% (MaxWeightExceeded)`);
+        }
+    }
+    return null;
+};
+
+/**
+ * Convert normalized weights (keyed by UID) for submission: drop non-positive
+ * weights, pad to minAllowedWeights (or the count maxWeightsLimit needs), clip to
+ * maxWeightsLimit, convert to u16 and validate. UIDs are submitted in ascending
+ * order.
+ */
+export const convertWeights = (weights: Record<string, number>, params: WeightHyperparameters, validatorUid: number): Result<ConvertedWeights | null> => {
+    const entries = Object.entries(weights)
+        .map(([uid, w]) => [Number(uid), w] as [number, number])
+        .filter(([, w]) => isFinite(w) && w > 0)
+        .sort(([a], [b]) => a - b);
+    if (!entries.length) return [null, new Error('No positive weights to convert')];
+
+    // Pad with the lowest unweighted UIDs, the validator's own UID last
+    const padded: number[] = [];
+    const needed = paddedWeightCount(params) - entries.length;
+    if (needed > 0) {
+        const weighted = new Set(entries.map(([uid]) => uid));
+        const candidates = Array.from({ length: params.subnetworkN }, (_, uid) => uid)
+            .filter(uid => !weighted.has(uid))
+            .sort((a, b) => Number(a === validatorUid) - Number(b === validatorUid) || a - b);
+        padded.push(...candidates.slice(0, needed));
+        entries.push(...padded.map(uid => [uid, PADDING_WEIGHT] as [number, number]));
+        entries.sort(([a], [b]) => a - b);
+    }
+
+    const uids = entries.map(([uid]) => uid);
+    const total = entries.reduce((sum, [, w]) => sum + w, 0);
+    const maxShare = params.maxWeightsLimit / U16_MAX;
+    const [clip, clipErr] = clipToMaxShare(entries.map(([, w]) => w / total), maxShare);
+    if (clipErr) return [null, clipErr];
+
+    const [values, convertErr] = toU16LargestRemainder(clip.weights);
+    if (convertErr) return [null, convertErr];
+
+    const validationErr = validateWeightVector(uids, values, params, validatorUid);
+    if (validationErr) return [null, validationErr];
+
+    return [{
+        uids,
+        values,
+        onChain: toOnChainWeights(values),
+        clipped: clip.clipped.map(i => uids[i]),
+        padded,
+        maxShare: Math.max(...values) / U16_MAX,
+    }, null];
+};
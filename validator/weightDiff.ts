@@ -0,0 +1,81 @@
+/**
+ * Diff between the validator's on-chain weights and the weights about to be set
+ *
+ * Both sides are normalized to sum to 1 before comparing, since the chain stores
+ * max-upscaled u16 rows. Used to skip submissions that would not meaningfully
+ * change the on-chain weights.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface WeightMove {
+  uid: string;
+  current: number;
+  proposed: number;
+  delta: number;
+}
+
+export interface WeightDiff {
+  timestamp: string;
+  l1Distance: number;
+  maxAbsDiff: number;
+  // UIDs that gain a non-zero weight / lose their weight entirely
+  added: string[];
+  removed: string[];
+  topMovers: WeightMove[];
+}
+
+const TOP_MOVERS = 10;
+
+const normalize = (weights: Record<string, number>): Record<string, number> => {
+    const total = Object.values(weights).reduce((sum, w) => sum + (isFinite(w) && w > 0 ? w : 0), 0);
+    const out: Record<string, number> = {};
+    for (const [uid, w] of Object.entries(weights)) {
+        if (!isFinite(w) || w <= 0) continue;
+        out[uid] = total > 0 ? w / total : 0;
+    }
+    return out;
+};
+
+export const computeWeightDiff = (current: Record<string, number>, proposed: Record<string, number>): WeightDiff => {
+    const cur = normalize(current);
+    const next = normalize(proposed);
+    const uids = new Set([...Object.keys(cur), ...Object.keys(next)]);
+
+    const moves: WeightMove[] = [];
+    let l1Distance = 0;
+    let maxAbsDiff = 0;
+    for (const uid of uids) {
+        const c = cur[uid] ?? 0;
+        const p = next[uid] ?? 0;
+        const delta = p - c;
+        l1Distance += Math.abs(delta);
+        maxAbsDiff = Math.max(maxAbsDiff, Math.abs(delta));
+        if (delta !== 0) moves.push({ uid, current: c, proposed: p, delta });
+    }
+
+    moves.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+    const byUid = (a: string, b: string) => Number(a) - Number(b);
+    return {
+        timestamp: new Date().toISOString(),
+        l1Distance,
+        maxAbsDiff,
+        added: Object.keys(next).filter(uid => !(uid in cur)).sort(byUid),
+        removed: Object.keys(cur).filter(uid => !(uid in next)).sort(byUid),
+        topMovers: moves.slice(0, TOP_MOVERS),
+    };
+};
+
+// Write `<ts>.diff.json` next to the weight snapshots; returns the file path
+export async function writeWeightDiff(weightsDir: string, diff: WeightDiff): Promise<[string | null, Error | null]> {
+    try {
+        await fs.mkdir(weightsDir, { recursive: true });
+        const ts = diff.timestamp.replace(/[:.]/g, '-');
+        const filePath = path.join(weightsDir, `${ts}.diff.json`);
+        await fs.writeFile(filePath, JSON.stringify(diff, null, 2));
+        return [filePath, null];
+    } catch (err) {
+        return [null, err instanceof Error ? err : new Error(String(err))];
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Weight math for the sn77 validator
+ *
+ * EMA smoothing and normalization of the per-UID weight vector. Shared by the
+ * main loop and the backtest so both run the same computation.
+ */
+
+import { getLogger } from '../utils/logger';
+import type { Result } from './types';
+
+export const U16_MAX = 65535;
+
+const log = getLogger('weights');
+
+export const updateEma = (prev: Record<string, number>, curr: Record<string, number>, alpha: number): Record<string, number> => {
+    const keys = new Set([...Object.keys(prev), ...Object.keys(curr)]);
+    const next: Record<string, number> = {};
+    for (const k of keys) {
+        const prevVal = prev[k] ?? 0;
+        const currVal = curr[k] ?? 0;
+
+        // Safety check for NaN or invalid values
+        const safePrev = isFinite(prevVal) ? prevVal : 0;
+        const safeCurr = isFinite(currVal) ? currVal : 0;
+
+        next[k] = alpha * safeCurr + (1 - alpha) * safePrev;
+
+        // Additional safety check on the result
+        if (!isFinite(next[k])) {
+            log.warn(`EMA calculation resulted in invalid value for key ${k}, setting to 0`);
+            next[k] = 0;
+        }
+    }
+    return next;
+};
+
+export const normalizeFinalMinerWeights = (finalMinerWeights: Record<string, number>): Result<Record<string, number>> => {
+    const normalizedFinalMinerWeights: Record<string, number> = {};
+    const totalWeight = Object.values(finalMinerWeights).reduce((sum, weight) => sum + weight, 0);
+
+    // Handle case where totalWeight is 0, NaN, or invalid
+    if (!totalWeight || totalWeight <= 0 || !isFinite(totalWeight)) {
+        const minerIds = Object.keys(finalMinerWeights);
+        const uniformWeight = minerIds.length > 0 ? 1 / minerIds.length : 0;
+
+        log.warn(`Invalid or zero total weight (${totalWeight}), using uniform distribution: ${uniformWeight.toFixed(6)} per miner`);
+        for (const minerId of minerIds) {
+            normalizedFinalMinerWeights[minerId] = uniformWeight;
+        }
+        return [normalizedFinalMinerWeights, null];
+    }
+
+    for (const [minerId, weight] of Object.entries(finalMinerWeights)) {
+        // Additional safety check for individual weights
+        if (!isFinite(weight) || weight < 0) {
+            log.warn(`Invalid weight ${weight} for miner ${minerId}, setting to 0`);
+            normalizedFinalMinerWeights[minerId] = 0;
+        } else {
+            normalizedFinalMinerWeights[minerId] = weight / totalWeight;
+        }
+    }
+    return [normalizedFinalMinerWeights, null];
+};
@@ -0,0 +1,339 @@
+/**
+ * Pluggable weight sources for the sn77 validator
+ *
+ * A source yields a weight map keyed by miner hotkey or by UID:
+ * - `http:<baseUrl>`  the weights server (or a mirror) `/weights` endpoint
+ * - `file:<path>`     a JSON file in the `logs/weights/*.json` format, or the newest
+ *                     such file in a directory (manual overrides)
+ * - `local[:<baseUrl>]` weights recomputed from the server's raw `/pools` and
+ *                     `/positions` data (see weightAudit.ts)
+ *
+ * Results of several sources are combined per UID by median or quorum before
+ * they reach the EMA.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getLogger } from '../utils/logger';
+import { metrics } from './metrics';
+import { verifyWeightsPayload, type SignaturePolicy } from './payloadVerification';
+import { computeLocalWeights, fetchPools, fetchPositions } from './weightAudit';
+import type { RegistryMapResponse, Result, WeightsResponse } from './types';
+
+export type SourceKind = 'http' | 'file' | 'local';
+
+// median: per-UID median over all responding sources (missing counts as 0)
+// quorum: a UID keeps a weight only when at least `quorum` sources give it one
+export type ConsensusMode = 'median' | 'quorum';
+
+export interface SourceContext {
+  registry: RegistryMapResponse;
+}
+
+export interface WeightSource {
+  name: string;
+  kind: SourceKind;
+  keyedBy: 'hotkey' | 'uid';
+  fetch: (ctx: SourceContext) => Promise<Result<Record<string, number> | null>>;
+  // sources with a response cache (http) report and expire it
+  cacheState?: () => SourceCacheState | null;
+  // the next fetch goes to the server; the cached copy stays as a fallback
+  expireCache?: () => void;
+}
+
+export interface SourceCacheState {
+  entries: number;
+  fetchedAt: string;
+  ageMs: number;
+  fresh: boolean;
+  // block of the newest accepted signed payload, 0 when unsigned
+  lastPayloadBlock: number;
+}
+
+export interface SourceResult {
+  source: WeightSource;
+  weights: Record<string, number> | null;
+  error: Error | null;
+}
+
+export interface HttpSourceOptions {
+  baseUrl: string;
+  cacheMs: number;
+  signature: { policy: SignaturePolicy; publicKey: string; maxAgeMs: number };
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const log = getLogger('sources');
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toError = (err: unknown): Error => err instanceof Error ? err : new Error(String(err));
+
+/**
+ * `/weights` of the weights server or a mirror. Keeps its own cache and falls
+ * back to the last accepted (and, with a pinned key, verified) copy when every
+ * attempt fails.
+ */
+export const createHttpSource = (options: HttpSourceOptions): WeightSource => {
+    const { baseUrl, cacheMs, signature } = options;
+    const timeoutMs = options.timeoutMs ?? 30000;
+    const maxRetries = options.retries ?? 3;
+    let cached: { data: Record<string, number>; timestamp: number } | null = null;
+    // Block of the newest accepted signed payload; older payloads are replays
+    let lastPayloadBlock = 0;
+    // Set by expireCache(): the next fetch skips the cache
+    let expired = false;
+
+    const fetchWeights = async (): Promise<Result<Record<string, number> | null>> => {
+        const now = Date.now();
+        const skipCache = expired;
+        expired = false;
+
+        // Return cached data if it exists and is not expired
+        if (cached && !skipCache && (now - cached.timestamp) < cacheMs) {
+            log.notify(`Using cached weights data from ${baseUrl}`);
+            metrics.weightsCacheHits.inc({ state: 'fresh' });
+            return [cached.data, null];
+        }
+
+        let lastError: Error | null = null;
+        for (let attempt = 1; attempt <= maxRetries; attempt++) {
+            try {
+                log.notify(`Fetching fresh weights from ${baseUrl} (attempt ${attempt}/${maxRetries})`);
+                const controller = new AbortController();
+                const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+                const requestStart = Date.now();
+                const response = await fetch(`${baseUrl}/weights`, {
+                    signal: controller.signal
+                });
+                clearTimeout(timeoutId);
+                metrics.serverFetchDuration.observe((Date.now() - requestStart) / 1000, { endpoint: 'weights' });
+
+                if (!response.ok) {
+                    throw new Error(`Server responded with status ${response.status}: ${response.statusText}`);
+                }
+
+                const data = await response.json() as WeightsResponse;
+                if (!data.success) {
+                    throw new Error(data.error || 'Failed to fetch weights');
+                }
+
+                if (signature.policy !== 'off') {
+                    const check = await verifyWeightsPayload(data, {
+                        publicKey: signature.publicKey,
+                        maxAgeMs: signature.maxAgeMs,
+                        lastBlock: lastPayloadBlock,
+                        now: Date.now(),
+                    });
+                    if (!check.valid) {
+                        metrics.payloadVerificationFailures.inc({ reason: check.reason ?? 'unknown' });
+                        if (signature.policy === 'enforce') {
+                            // Retrying would fetch the same payload; fall back to the last verified copy
+                            lastError = new Error(`Rejected unverified weights payload from ${baseUrl}: ${check.detail}`);
+                            log.error(lastError.message);
+                            break;
+                        }
+                        log.warn(`Weights payload from ${baseUrl} failed verification (${check.detail}), accepting because WEIGHTS_SIGNATURE_POLICY=warn`);
+                    } else {
+                        lastPayloadBlock = Math.max(lastPayloadBlock, check.block ?? 0);
+                    }
+                }
+
+                cached = { data: data.weights, timestamp: now };
+                return [data.weights, null];
+            } catch (err) {
+                lastError = toError(err);
+                metrics.serverFetchFailures.inc({ endpoint: 'weights' });
+                if (lastError.name === 'AbortError') {
+                    log.error(`Request to ${baseUrl} timed out`);
+                } else {
+                    log.error(`Attempt ${attempt} failed:`, lastError);
+                }
+
+                if (attempt < maxRetries) {
+                    const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 10000); // Exponential backoff, max 10s
+                    await delay(delayMs);
+                }
+            }
+        }
+
+        // If we have cached data but it's expired, use it as fallback
+        if (cached) {
+            log.warn(`Using expired cached data from ${baseUrl} due to fetch or verification failures`);
+            metrics.weightsCacheHits.inc({ state: 'expired' });
+            return [cached.data, null];
+        }
+        return [null, lastError];
+    };
+
+    return {
+        name: `http:${baseUrl}`,
+        kind: 'http',
+        keyedBy: 'hotkey',
+        fetch: fetchWeights,
+        cacheState: () => cached && {
+            entries: Object.keys(cached.data).length,
+            fetchedAt: new Date(cached.timestamp).toISOString(),
+            ageMs: Date.now() - cached.timestamp,
+            fresh: !expired && Date.now() - cached.timestamp < cacheMs,
+            lastPayloadBlock,
+        },
+        expireCache: () => {
+            expired = true;
+        },
+    };
+};
+
+/**
+ * Weights from a file in the `logs/weights/<ts>.json` format (`{ weights: { uid: weight } }`).
+ * When `filePath` is a directory the newest snapshot in it is used.
+ */
+export const createFileSource = (filePath: string): WeightSource => {
+    const resolveFile = async (): Promise<string> => {
+        const stat = await fs.stat(filePath);
+        if (!stat.isDirectory()) return filePath;
+        const snapshots = (await fs.readdir(filePath))
+            .filter(f => f.endsWith('.json') && !f.endsWith('.diff.json'))
+            .sort();
+        if (!snapshots.length) throw new Error(`No weight snapshots in ${filePath}`);
+        return path.join(filePath, snapshots[snapshots.length - 1]);
+    };
+
+    return {
+        name: `file:${filePath}`,
+        kind: 'file',
+        keyedBy: 'uid',
+        fetch: async () => {
+            try {
+                const file = await resolveFile();
+                const parsed = JSON.parse(await fs.readFile(file, 'utf-8')) as { weights?: Record<string, number> };
+                if (!parsed.weights || typeof parsed.weights !== 'object') return [null, new Error(`${file} has no weights object`)];
+                for (const [uid, weight] of Object.entries(parsed.weights)) {
+                    if (!/^\d+$/.test(uid) || typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+                        return [null, new Error(`${file} has an invalid entry ${uid}: ${weight}`)];
+                    }
+                }
+                log.info(`Loaded weights for ${Object.keys(parsed.weights).length} UIDs from ${file}`);
+                return [parsed.weights, null];
+            } catch (err) {
+                return [null, toError(err)];
+            }
+        },
+    };
+};
+
+// Weights recomputed from the raw pool votes and positions instead of `/weights`
+export const createLocalSource = (baseUrl: string): WeightSource => ({
+    name: `local:${baseUrl}`,
+    kind: 'local',
+    keyedBy: 'hotkey',
+    fetch: async ({ registry }) => {
+        const [[poolsData, poolsErr], [positionsData, positionsErr]] = await Promise.all([
+            fetchPools(baseUrl),
+            fetchPositions(baseUrl),
+        ]);
+        if (poolsErr || !poolsData) return [null, poolsErr ?? new Error('No pools data received')];
+        if (positionsErr || !positionsData) return [null, positionsErr ?? new Error('No positions data received')];
+        return [computeLocalWeights(poolsData.pools, positionsData.positions, registry), null];
+    },
+});
+
+/**
+ * Parse a comma-separated source list, e.g.
+ * `http:https://77.creativebuilds.io,http:https://mirror.example,file:logs/override.json,local`.
+ */
+export const parseWeightSources = (spec: string, defaults: Omit<HttpSourceOptions, 'baseUrl'> & { baseUrl: string }): Result<WeightSource[]> => {
+    const sources: WeightSource[] = [];
+    for (const entry of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+        const sep = entry.indexOf(':');
+        const kind = sep === -1 ? entry : entry.slice(0, sep);
+        const arg = sep === -1 ? '' : entry.slice(sep + 1);
+        if (kind === 'http') {
+            if (!/^https?:\/\//.test(arg)) return [[], new Error(`Invalid http weight source "${entry}"`)];
+            sources.push(createHttpSource({ ...defaults, baseUrl: arg.replace(/\/+$/, '') }));
+        } else if (kind === 'file') {
+            if (!arg) return [[], new Error(`File weight source "${entry}" needs a path`)];
+            sources.push(createFileSource(path.resolve(arg)));
+        } else if (kind === 'local') {
+            sources.push(createLocalSource((arg || defaults.baseUrl).replace(/\/+$/, '')));
+        } else {
+            return [[], new Error(`Unknown weight source "${entry}", expected http:<url>, file:<path> or local[:<url>]`)];
+        }
+    }
+    if (!sources.length) return [[], new Error('No weight sources configured')];
+    return [sources, null];
+};
+
+export async function fetchAllSources(sources: WeightSource[], ctx: SourceContext): Promise<SourceResult[]> {
+    return Promise.all(sources.map(async source => {
+        try {
+            const [weights, error] = await source.fetch(ctx);
+            return { source, weights: error ? null : weights, error: error ?? (weights ? null : new Error('No weights data received')) };
+        } catch (err) {
+            return { source, weights: null, error: toError(err) };
+        }
+    }));
+}
+
+/**
+ * Re-key a source result by UID. Hotkeys without a UID are returned separately.
+ */
+export const toUidWeights = (
+    result: SourceResult,
+    hotkeyToUid: Record<string, number>,
+): { weights: Record<string, number>; unmapped: string[] } => {
+    const weights: Record<string, number> = {};
+    const unmapped: string[] = [];
+    if (!result.weights) return { weights, unmapped };
+    if (result.source.keyedBy === 'uid') return { weights: { ...result.weights }, unmapped };
+    for (const [hotkey, weight] of Object.entries(result.weights)) {
+        const uid = hotkeyToUid[hotkey];
+        if (uid !== undefined) weights[uid.toString()] = weight;
+        else unmapped.push(hotkey);
+    }
+    return { weights, unmapped };
+};
+
+const normalize = (weights: Record<string, number>): Record<string, number> => {
+    const total = Object.values(weights).reduce((sum, w) => sum + (isFinite(w) && w > 0 ? w : 0), 0);
+    if (total <= 0) return {};
+    return Object.fromEntries(Object.entries(weights).filter(([, w]) => isFinite(w) && w > 0).map(([uid, w]) => [uid, w / total]));
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Combine the UID-keyed maps of the responding sources. Fails when fewer than
+ * `quorum` sources responded. A single map is returned unchanged; otherwise each
+ * map is normalized first and the combined map is renormalized.
+ */
+export const combineWeights = (
+    maps: Record<string, number>[],
+    opts: { mode: ConsensusMode; quorum: number },
+): Result<Record<string, number> | null> => {
+    if (maps.length < Math.max(1, opts.quorum)) {
+        return [null, new Error(`Only ${maps.length} weight sources responded, quorum is ${opts.quorum}`)];
+    }
+    if (maps.length === 1) return [maps[0], null];
+
+    const normalized = maps.map(normalize);
+    const uids = new Set(normalized.flatMap(m => Object.keys(m)));
+    const combined: Record<string, number> = {};
+    for (const uid of uids) {
+        const values = normalized.map(m => m[uid] ?? 0);
+        if (opts.mode === 'quorum') {
+            const reported = values.filter(v => v > 0);
+            if (reported.length >= opts.quorum) combined[uid] = median(reported);
+        } else {
+            const value = median(values);
+            if (value > 0) combined[uid] = value;
+        }
+    }
+    return [normalize(combined), null];
+};